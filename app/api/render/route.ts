@@ -0,0 +1,77 @@
+// Headless render for automation (e.g. a CMS): POST multipart/form-data with
+// either `bundle` (a .cineforge file) or `project` (its project.json) plus one
+// part per referenced file, named by file id. Optional `preset` picks an
+// output size from OUTPUT_PRESETS and `locale` one of the project's locale
+// variants. Responds with the MP4; oversized uploads (413), video clips and
+// over-long timelines (422) are refused up front.
+import { renderProjectMp4 } from "@/lib/headless";
+import { fromProject, importBundle, parseProject, timelineForRender, type Project } from "@/lib/project";
+import { timelineDuration } from "@/lib/timeline";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+// Rendering runs in real time or slower on small servers
+export const maxDuration = 300;
+
+// Requests past these are refused before anything is decoded or rendered
+const MAX_UPLOAD_BYTES = 200 * 1024 * 1024;
+const MAX_DURATION_MS = 3 * 60_000;
+
+const reject = (status: number, error: string) => Response.json({ error }, { status });
+
+export async function POST(req: Request) {
+  const length = Number(req.headers.get("content-length") ?? 0);
+  if (length > MAX_UPLOAD_BYTES) return reject(413, `Uploads are limited to ${MAX_UPLOAD_BYTES / 1024 / 1024} MB`);
+
+  let project: Project;
+  let files: Map<string, Blob>;
+  let preset: string | undefined;
+  let locale: string | undefined;
+  try {
+    const form = await req.formData();
+    const bundle = form.get("bundle");
+    if (bundle instanceof Blob) {
+      ({ project, files } = await importBundle(bundle));
+    } else {
+      const json = form.get("project");
+      if (json == null) throw new Error("Missing `project` or `bundle`");
+      project = parseProject(typeof json === "string" ? json : await json.text());
+      files = new Map();
+      for (const ref of project.files) {
+        const part = form.get(ref.id);
+        if (part instanceof Blob) files.set(ref.id, part);
+      }
+    }
+    const p = form.get("preset");
+    preset = typeof p === "string" && p ? p : undefined;
+    const l = form.get("locale");
+    locale = typeof l === "string" && l ? l : undefined;
+  } catch (e) {
+    return reject(400, e instanceof Error ? e.message : String(e));
+  }
+
+  // Chunked uploads carry no length up front
+  const size = [...files.values()].reduce((sum, f) => sum + f.size, 0);
+  if (size > MAX_UPLOAD_BYTES) return reject(413, `Uploads are limited to ${MAX_UPLOAD_BYTES / 1024 / 1024} MB`);
+  const state = fromProject(project, files);
+  // The renderer decodes stills only
+  const clips = state.assets.filter(a => !a.file.type.startsWith("image/"));
+  if (clips.length) return reject(422, `Video clips cannot be rendered on the server yet: ${clips.map(a => a.file.name).join(", ")}`);
+  // Beat sync only nudges cuts, so the unsynced length is close enough here
+  const durationMs = timelineDuration(timelineForRender(state, null));
+  if (durationMs > MAX_DURATION_MS) return reject(422, `Videos are limited to ${MAX_DURATION_MS / 1000} s; this one runs ${Math.round(durationMs / 1000)} s`);
+
+  try {
+    const mp4 = await renderProjectMp4(project, files, { preset, locale });
+    const name = [project.name, locale].filter(Boolean).join("-").replace(/[^\w-]+/g, "-").toLowerCase() || "cineforge";
+    return new Response(new Uint8Array(mp4), {
+      headers: {
+        "Content-Type": "video/mp4",
+        "Content-Length": String(mp4.byteLength),
+        "Content-Disposition": `attachment; filename="${name}.mp4"`,
+      },
+    });
+  } catch (e) {
+    return reject(500, e instanceof Error ? e.message : String(e));
+  }
+}
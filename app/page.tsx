@@ -1,124 +1,584 @@
 "use client";
 
-import { useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { AssetDropzone } from "@/components/AssetDropzone";
 import { VideoComposer } from "@/components/VideoComposer";
+import { TimelineEditor } from "@/components/TimelineEditor";
+import { AudioMixPanel } from "@/components/AudioMixPanel";
+import { ThemeEditor } from "@/components/ThemeEditor";
+import { BrandKitPanel } from "@/components/BrandKitPanel";
+import { TextAnimationPanel } from "@/components/TextAnimationPanel";
+import { orderImageScenes, syncImageScenes } from "@/lib/timeline";
+import { decodeAudioFile } from "@/lib/audio";
+import { findTheme, parseTheme, type Theme } from "@/lib/themes";
+import { applyBrand, loadBrandFonts } from "@/lib/brand";
+import { createAssets, moveAsset, removeAsset, updateAsset, type Asset } from "@/lib/assets";
+import {
+  BUNDLE_EXTENSION,
+  defaultProjectState,
+  exportBundle,
+  fromProject,
+  importBundle,
+  newProjectMeta,
+  timelineForRender,
+  toProject,
+  type ProjectMeta,
+  type ProjectState,
+} from "@/lib/project";
+import { createHistory, execute, redo, undo, type History } from "@/lib/history";
+import { downloadBlob } from "@/lib/download";
+import { deleteProject, duplicateProject, listProjects, loadProject, renameProject, saveProject } from "@/lib/storage";
+import { analyzeAudioBuffer, type BeatAnalysis } from "@/lib/beats";
+import { BatchExportPanel } from "@/components/BatchExportPanel";
+import { ProjectPanel } from "@/components/ProjectPanel";
+import { AssetTray } from "@/components/AssetTray";
+import { BulkPanel } from "@/components/BulkPanel";
+import { LocalePanel } from "@/components/LocalePanel";
+import { localize, priceLabels } from "@/lib/locale";
+import { subtitleFiles, type Cue } from "@/lib/subtitles";
+import {
+  ASPECT_RATIOS,
+  BITRATE_PRESETS,
+  FPS_PRESETS,
+  aspectValue,
+  supportsOfflineAudio,
+  supportsOfflineRender,
+  type AspectRatio,
+  type ExportFormat,
+  type ExportSettings,
+  type RenderResult,
+} from "@/lib/render";
+
+const THEMES_KEY = "cineforge.themes";
+const LAST_PROJECT_KEY = "cineforge.lastProject";
+const AUTOSAVE_MS = 800;
 
 export default function Page() {
-  const [assets, setAssets] = useState<File[]>([]);
-  const [audioFile, setAudioFile] = useState<File | null>(null);
-  const [productName, setProductName] = useState("Aurora Lamp");
-  const [tagline, setTagline] = useState("Light. Sculpted.");
-  const [features, setFeatures] = useState<string[]>([
-    "Premium anodized aluminum",
-    "Adaptive ambient glow",
-    "12h battery life",
-  ]);
-  const [cta, setCta] = useState("Shop Now ?");
-  const [price, setPrice] = useState("$129");
-  const [ratio, setRatio] = useState<"16:9" | "9:16" | "1:1">("16:9");
-  const [style, setStyle] = useState<"cinematic" | "modern" | "minimal">(
-    "cinematic",
-  );
+  const [history, setHistory] = useState<History<ProjectState>>(()=>createHistory(defaultProjectState()));
+  const [meta, setMeta] = useState<ProjectMeta>(()=>newProjectMeta());
+  const [projects, setProjects] = useState<ProjectMeta[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<string | null>(null);
+  const [assetNotice, setAssetNotice] = useState<string | null>(null);
+  const [beats, setBeats] = useState<BeatAnalysis | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [customThemes, setCustomThemes] = useState<Theme[]>([]);
+  const [brandFonts, setBrandFonts] = useState<string[]>([]);
+  // Locale variant shown in the preview; null is the base copy
+  const [previewLocale, setPreviewLocale] = useState<string | null>(null);
+  // Replaces the previewed project while rendering variants, e.g. bulk feed
+  // rows or batch locales
+  const [previewOverride, setPreviewOverride] = useState<ProjectState | null>(null);
 
-  const [isRecording, setIsRecording] = useState(false);
+  // Exports share the composer, so one runs at a time: the single video, a
+  // batch or a bulk run
+  const [busy, setBusy] = useState<"video" | "batch" | "bulk" | null>(null);
+  const busyRef = useRef(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [videoExt, setVideoExt] = useState<ExportFormat>("mp4");
+  const [videoName, setVideoName] = useState("cineforge");
+  // SRT / WebVTT sidecars of the last render
+  const [subtitleLinks, setSubtitleLinks] = useState<{ name: string; url: string }[]>([]);
+  // Set where WebCodecs has H.264 but no AAC (e.g. Chromium on Linux), so
+  // MP4 exports with sound come out as WebM/Opus
+  const [noAac, setNoAac] = useState(false);
 
   const composerRef = useRef<{
-    startRecording: () => Promise<Blob>;
+    startRecording: (settings: ExportSettings, onProgress?: (p: number) => void, size?: { width: number; height: number }) => Promise<Blob>;
     stopRecording: () => void;
     totalDurationMs: number;
+    whenReady: (assetIds: string[]) => Promise<void>;
+    textTrack: () => Cue[];
   } | null>(null);
 
+  const project = history.present;
+  const {
+    assets, audioFile, audioMix, beatSync, productName, tagline, features,
+    cta, price, ratio, themeId, brand, timeline, animations, voiceOver, exportSettings,
+  } = project;
+  // Every project edit goes through the history; text and slider edits pass
+  // merge so a burst of keystrokes is one undo step
+  const update = (patch: Partial<ProjectState>, merge = false) => setHistory((h) => execute(h, patch, { merge }));
+
+  // What the composer shows and renders
+  const localized = useMemo(()=>localize(project, previewLocale), [project, previewLocale]);
+  const view = previewOverride ?? localized;
+  const viewPrices = priceLabels(view);
+
   const hasAssets = assets.length > 0;
+  const theme = useMemo(()=>findTheme(themeId, customThemes), [themeId, customThemes]);
+  const brandedTheme = useMemo(()=>applyBrand(theme, brand, brandFonts), [theme, brand, brandFonts]);
+
+  // Fonts must be registered before they are usable on the canvas
+  useEffect(()=>{
+    let cancelled = false;
+    loadBrandFonts(brand.fonts).then((families)=>{ if (!cancelled) setBrandFonts(families); });
+    return ()=>{ cancelled = true; };
+  }, [brand.fonts]);
+
+  useEffect(()=>{
+    if (supportsOfflineRender()) supportsOfflineAudio("mp4").then((ok)=>setNoAac(!ok));
+  }, []);
+
+  // Custom themes are a per-browser library, independent of the project
+  useEffect(()=>{
+    try {
+      const raw = JSON.parse(localStorage.getItem(THEMES_KEY) ?? "[]");
+      if (Array.isArray(raw)) setCustomThemes(raw.map((t) => parseTheme(t)));
+    } catch {}
+  }, []);
+
+  function handleThemes(next: Theme[]) {
+    setCustomThemes(next);
+    try { localStorage.setItem(THEMES_KEY, JSON.stringify(next)); } catch {}
+  }
+
+  // A project's embedded custom theme joins the library when it is opened
+  const adoptTheme = useCallback((t: Theme)=>{
+    setCustomThemes((prev) => {
+      if (prev.some(p => p.id === t.id)) return prev;
+      const next = [...prev, t];
+      try { localStorage.setItem(THEMES_KEY, JSON.stringify(next)); } catch {}
+      return next;
+    });
+  }, []);
+
+  // --- Project library ---
+
+  // Latest values for saves that run outside a render (timer, switching)
+  const latest = useRef({ project, meta, customThemes });
+  latest.current = { project, meta, customThemes };
+  const isDirty = useRef(false);
+  const skipSave = useRef(true);
 
-  async function handleGenerate() {
+  // Stable, so the load and autosave effects can depend on it
+  const saveNow = useCallback(async ()=>{
+    const { project: state, meta: m, customThemes: custom } = latest.current;
+    isDirty.current = false;
+    const { project: doc, files } = toProject(
+      { ...m, updatedAt: Date.now() },
+      { ...state, theme: custom.find(t => t.id === state.themeId) ?? null },
+    );
+    try {
+      await saveProject(doc, files);
+      localStorage.setItem(LAST_PROJECT_KEY, m.id);
+      setSaveStatus("Saved");
+      setProjects(await listProjects());
+    } catch (e) {
+      setSaveStatus(`Autosave failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }, []);
+
+  const flushSave = useCallback(async ()=>{
+    if (isDirty.current) await saveNow();
+  }, [saveNow]);
+
+  const applyProject = useCallback((nextMeta: ProjectMeta, state: ProjectState)=>{
+    skipSave.current = true;
+    isDirty.current = false;
+    if (state.theme) adoptTheme(state.theme);
+    setMeta(nextMeta);
+    setHistory(createHistory(state));
+    setPreviewLocale(null);
     setVideoUrl(null);
-    setIsRecording(true);
-    const blob = await composerRef.current!.startRecording();
-    setIsRecording(false);
-    const url = URL.createObjectURL(blob);
-    setVideoUrl(url);
+    setError(null);
+    localStorage.setItem(LAST_PROJECT_KEY, nextMeta.id);
+  }, [adoptTheme]);
+
+  const openProject = useCallback(async (id: string)=>{
+    await flushSave();
+    try {
+      const { project: doc, files } = await loadProject(id);
+      const { name, createdAt, updatedAt } = doc;
+      applyProject({ id, name, createdAt, updatedAt }, fromProject(doc, files));
+      setSaveStatus(null);
+    } catch (e) {
+      setSaveStatus(`Could not open project: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }, [flushSave, applyProject]);
+
+  // Reopen the last project, if any
+  useEffect(()=>{
+    (async ()=>{
+      try {
+        const list = await listProjects();
+        setProjects(list);
+        const last = localStorage.getItem(LAST_PROJECT_KEY);
+        if (last && list.some(p => p.id === last)) await openProject(last);
+      } catch {
+        setSaveStatus("Project storage is unavailable");
+      }
+      setIsLoaded(true);
+    })();
+  }, [openProject]);
+
+  // Debounced autosave; skipped for state that was just loaded
+  useEffect(()=>{
+    if (!isLoaded) return;
+    if (skipSave.current) { skipSave.current = false; return; }
+    isDirty.current = true;
+    setSaveStatus("Unsaved changes");
+    const id = setTimeout(saveNow, AUTOSAVE_MS);
+    return ()=>clearTimeout(id);
+  }, [project, meta.name, isLoaded, saveNow]);
+
+  async function newProject() {
+    await flushSave();
+    applyProject(newProjectMeta(), defaultProjectState());
+    setSaveStatus(null);
+  }
+
+  async function renameProjectById(id: string, name: string) {
+    if (id === meta.id) return setMeta({ ...meta, name });
+    await renameProject(id, name);
+    setProjects(await listProjects());
+  }
+
+  async function duplicateProjectById(id: string) {
+    if (id === meta.id) await saveNow();
+    await duplicateProject(id);
+    setProjects(await listProjects());
+  }
+
+  async function deleteProjectById(id: string) {
+    await deleteProject(id);
+    if (id === meta.id) applyProject(newProjectMeta(), defaultProjectState());
+    setProjects(await listProjects());
+  }
+
+  async function exportProject() {
+    const { project: doc, files } = toProject(meta, { ...project, theme: customThemes.find(t => t.id === themeId) ?? null });
+    downloadBlob(await exportBundle(doc, files), `${meta.name.replace(/[^\w-]+/g, "-").toLowerCase() || "project"}${BUNDLE_EXTENSION}`);
+  }
+
+  async function importProject(file: File) {
+    try {
+      await flushSave();
+      const { project: doc, files } = await importBundle(file);
+      await saveProject(doc, files);
+      setProjects(await listProjects());
+      await openProject(doc.id);
+    } catch (e) {
+      setSaveStatus(`Import failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  // Analyze the music track once per upload; cheap enough at 22 kHz mono
+  useEffect(()=>{
+    setBeats(null);
+    if (!audioFile) return;
+    let cancelled = false;
+    setIsAnalyzing(true);
+    (async ()=>{
+      const buffer = await decodeAudioFile(audioFile, 22_050);
+      if (!cancelled) setBeats(buffer ? analyzeAudioBuffer(buffer) : null);
+    })().finally(()=>{ if (!cancelled) setIsAnalyzing(false); });
+    return ()=>{ cancelled = true; };
+  }, [audioFile]);
+
+  const effectiveTimeline = useMemo(()=>timelineForRender({ ...view, beatSync, audioMix }, beats?.beatsMs ?? null), [view, beatSync, beats, audioMix]);
+
+  // Variants swap into the composer; waits for the commit, then for media.
+  // Every call passes a fresh state object, so the effect always fires.
+  const previewWaiters = useRef<(() => void)[]>([]);
+  useEffect(()=>{
+    const waiters = previewWaiters.current;
+    previewWaiters.current = [];
+    for (const resolve of waiters) resolve();
+  }, [previewOverride]);
+
+  async function showOverride(state: ProjectState | null) {
+    if (state !== previewOverride) await new Promise<void>((resolve)=>{ previewWaiters.current.push(resolve); setPreviewOverride(state); });
+    await composerRef.current!.whenReady((state ?? latest.current.project).assets.map(a => a.id));
   }
 
+  // Tray edits that add or remove assets keep the image scenes in step
+  const withAssets = (p: ProjectState, next: Asset[]) =>
+    ({ assets: next, timeline: syncImageScenes(p.timeline, next.map(a => a.id)) });
+
+  async function addAssets(files: File[]) {
+    const { added, duplicates } = await createAssets(files, assets);
+    setAssetNotice(duplicates.length ? `Skipped ${duplicates.length} duplicate${duplicates.length === 1 ? "" : "s"}: ${duplicates.map(f => f.name).join(", ")}` : null);
+    if (added.length) setHistory((h) => execute(h, (p) => withAssets(p, [...p.assets, ...added])));
+  }
+
+  function moveAssetTo(id: string, toIndex: number) {
+    setHistory((h) => execute(h, (p) => {
+      const next = moveAsset(p.assets, p.features, id, toIndex);
+      return { assets: next, timeline: orderImageScenes(p.timeline, next.map(a => a.id)) };
+    }));
+  }
+
+  useEffect(()=>{
+    function onKey(e: KeyboardEvent) {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      // Text fields keep their own undo
+      const target = e.target;
+      if (target instanceof HTMLElement && (target.isContentEditable || target.matches("input, textarea"))) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" || key === "y") {
+        e.preventDefault();
+        setHistory(key === "y" || e.shiftKey ? redo : undo);
+      }
+    }
+    window.addEventListener("keydown", onKey);
+    return ()=>window.removeEventListener("keydown", onKey);
+  }, []);
+
+  // Render what the composer shows, with the text track it was drawn with
+  async function renderCurrent(settings: ExportSettings, onProgress: (p: number) => void, size?: { width: number; height: number }): Promise<RenderResult> {
+    const composer = composerRef.current!;
+    const video = await composer.startRecording(settings, onProgress, size);
+    return { video, cues: composer.textTrack() };
+  }
+
+  // Runs task unless another export is running; the ref catches a second
+  // start before the disabled buttons re-render
+  async function exclusive(job: NonNullable<typeof busy>, task: () => Promise<void>) {
+    if (busyRef.current) return;
+    busyRef.current = true;
+    setBusy(job);
+    try {
+      await task();
+    } finally {
+      busyRef.current = false;
+      setBusy(null);
+    }
+  }
+
+  const handleGenerate = () => exclusive("video", async ()=>{
+    setVideoUrl(null);
+    for (const l of subtitleLinks) URL.revokeObjectURL(l.url);
+    setSubtitleLinks([]);
+    setError(null);
+    setProgress(0);
+    try {
+      const { video, cues } = await renderCurrent(exportSettings, setProgress);
+      const name = `cineforge-${Date.now()}`;
+      setVideoName(name);
+      setVideoExt(video.type.includes("mp4") ? "mp4" : "webm");
+      setVideoUrl(URL.createObjectURL(video));
+      if (cues.length) setSubtitleLinks(subtitleFiles(name, cues).map(f => ({ name: f.name, url: URL.createObjectURL(f.data) })));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  });
+
   return (
     <main className="grid grid-cols-1 lg:grid-cols-5 gap-6">
       <section className="lg:col-span-2 card p-4 lg:p-6">
-        <h2 className="text-lg font-semibold mb-4">Project</h2>
+        <div className="mb-4 flex items-center justify-between">
+          <h2 className="text-lg font-semibold">Project</h2>
+          <div className="flex gap-2 text-xs">
+            <button disabled={!history.past.length} className="rounded border border-white/10 px-2 py-1 hover:bg-white/10 disabled:opacity-40" title="Undo (Ctrl/Cmd+Z)" onClick={()=>setHistory(undo)}>↶ Undo</button>
+            <button disabled={!history.future.length} className="rounded border border-white/10 px-2 py-1 hover:bg-white/10 disabled:opacity-40" title="Redo (Ctrl/Cmd+Shift+Z)" onClick={()=>setHistory(redo)}>↷ Redo</button>
+          </div>
+        </div>
         <div className="space-y-4">
+          <ProjectPanel
+            projects={projects}
+            current={meta}
+            status={saveStatus}
+            onOpen={openProject}
+            onNew={newProject}
+            onRename={renameProjectById}
+            onDuplicate={duplicateProjectById}
+            onDelete={deleteProjectById}
+            onExport={exportProject}
+            onImport={importProject}
+          />
           <label className="block">
             <span className="block text-sm mb-1">Product name</span>
-            <input className="input" value={productName} onChange={(e)=>setProductName(e.target.value)} />
+            <input className="input" value={productName} onChange={(e)=>update({ productName: e.target.value }, true)} />
           </label>
           <label className="block">
             <span className="block text-sm mb-1">Tagline</span>
-            <input className="input" value={tagline} onChange={(e)=>setTagline(e.target.value)} />
+            <input className="input" value={tagline} onChange={(e)=>update({ tagline: e.target.value }, true)} />
           </label>
           <label className="block">
             <span className="block text-sm mb-1">Features (one per line)</span>
-            <textarea className="input h-24" value={features.join("\n")} onChange={(e)=>setFeatures(e.target.value.split("\n").filter(Boolean))} />
+            <textarea className="input h-24" value={features.join("\n")} onChange={(e)=>update({ features: e.target.value.split("\n").filter(Boolean) }, true)} />
           </label>
           <div className="grid grid-cols-2 gap-3">
             <label className="block">
               <span className="block text-sm mb-1">Price</span>
-              <input className="input" value={price} onChange={(e)=>setPrice(e.target.value)} />
+              <input className="input" value={price} onChange={(e)=>update({ price: e.target.value }, true)} />
             </label>
             <label className="block">
               <span className="block text-sm mb-1">CTA</span>
-              <input className="input" value={cta} onChange={(e)=>setCta(e.target.value)} />
+              <input className="input" value={cta} onChange={(e)=>update({ cta: e.target.value }, true)} />
             </label>
           </div>
-          <div className="grid grid-cols-2 gap-3">
-            <label className="block">
-              <span className="block text-sm mb-1">Aspect ratio</span>
-              <select className="input" value={ratio} onChange={(e)=>setRatio(e.target.value as any)}>
-                <option>16:9</option>
-                <option>9:16</option>
-                <option>1:1</option>
-              </select>
-            </label>
-            <label className="block">
-              <span className="block text-sm mb-1">Style</span>
-              <select className="input" value={style} onChange={(e)=>setStyle(e.target.value as any)}>
-                <option value="cinematic">Cinematic</option>
-                <option value="modern">Modern</option>
-                <option value="minimal">Minimal</option>
-              </select>
-            </label>
+          <div>
+            <span className="block text-sm mb-1">Locales &amp; pricing</span>
+            <LocalePanel project={project} previewLocale={previewLocale} onPreview={setPreviewLocale} onChange={(patch)=>update(patch, true)} />
           </div>
+          <label className="block">
+            <span className="block text-sm mb-1">Aspect ratio</span>
+            <select className="input" value={ratio} onChange={(e)=>update({ ratio: e.target.value as AspectRatio })}>
+              {ASPECT_RATIOS.map(r => <option key={r}>{r}</option>)}
+            </select>
+          </label>
+
+          <div>
+            <span className="block text-sm mb-1">Theme</span>
+            <ThemeEditor activeId={theme.id} customThemes={customThemes} onSelect={(id)=>update({ themeId: id })} onChange={handleThemes} />
+          </div>
+
+          <div>
+            <span className="block text-sm mb-1">Brand kit</span>
+            <BrandKitPanel brand={brand} loadedFonts={brandFonts} onChange={(b)=>update({ brand: b }, true)} />
+          </div>
+
+          <div>
+            <span className="block text-sm mb-1">Text animation</span>
+            <TextAnimationPanel animations={animations} onChange={(a)=>update({ animations: a }, true)} />
+          </div>
+
+          <label className="block">
+            <span className="block text-sm mb-1">Voice-over script</span>
+            <textarea className="input h-24" placeholder={"One caption per line or sentence.\n[0:04] pins a line to 4 seconds."} value={voiceOver.script}
+              onChange={(e)=>update({ voiceOver: { ...voiceOver, script: e.target.value } }, true)} />
+            <span className="mt-1 flex items-center gap-2 text-xs">
+              <input type="checkbox" checked={voiceOver.burnIn} onChange={(e)=>update({ voiceOver: { ...voiceOver, burnIn: e.target.checked } })} />
+              Burn in high-contrast captions
+            </span>
+          </label>
 
           <div>
             <span className="block text-sm mb-2">Assets</span>
-            <AssetDropzone onFiles={(fs)=>setAssets(fs)} accept="image/*" multiple />
+            <AssetTray
+              assets={assets}
+              features={features}
+              aspect={aspectValue(ratio)}
+              notice={assetNotice}
+              onAdd={addAssets}
+              onMove={moveAssetTo}
+              onRemove={(id)=>setHistory((h)=>execute(h, (p)=>withAssets(p, removeAsset(p.assets, id))))}
+              onUpdate={(id, patch)=>setHistory((h)=>execute(h, (p)=>({ assets: updateAsset(p.assets, id, patch) }), { merge: true }))}
+            />
+          </div>
+
+          <div>
+            <span className="block text-sm mb-2">Scenes</span>
+            <TimelineEditor
+              timeline={timeline}
+              assets={assets}
+              onChange={(t, merge)=>update({ timeline: t }, merge)}
+            />
           </div>
 
           <div>
             <span className="block text-sm mb-2">Optional music</span>
-            <AssetDropzone onFiles={(fs)=>setAudioFile(fs[0] ?? null)} accept="audio/*" multiple={false} />
+            <AssetDropzone onFiles={(fs)=>update({ audioFile: fs[0] ?? null })} accept="audio/*" multiple={false} />
+            {audioFile && (
+              <div className="mt-2">
+                <AudioMixPanel mix={audioMix} onChange={(m)=>update({ audioMix: m }, true)} />
+                <label className="mt-2 flex items-center gap-2 text-xs">
+                  <input type="checkbox" checked={beatSync} disabled={!beats?.beatsMs.length} onChange={(e)=>update({ beatSync: e.target.checked })} />
+                  Auto-sync cuts to beat
+                  <span className="text-white/50">
+                    {isAnalyzing ? "analyzing…" : beats?.bpm ? `≈ ${Math.round(beats.bpm)} BPM` : "no beat found"}
+                  </span>
+                </label>
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <label className="block">
+              <span className="block text-sm mb-1">Format</span>
+              <select className="input" value={exportSettings.format} onChange={(e)=>update({ exportSettings: { ...exportSettings, format: e.target.value as ExportFormat } })}>
+                <option value="mp4">{noAac ? "MP4 (H.264, no AAC)" : "MP4 (H.264/AAC)"}</option>
+                <option value="webm">WebM (VP9/Opus)</option>
+              </select>
+            </label>
+            <label className="block">
+              <span className="block text-sm mb-1">Frame rate</span>
+              <select className="input" value={exportSettings.fps} onChange={(e)=>update({ exportSettings: { ...exportSettings, fps: Number(e.target.value) } })}>
+                {FPS_PRESETS.map(f => <option key={f} value={f}>{f} fps</option>)}
+              </select>
+            </label>
+            <label className="block">
+              <span className="block text-sm mb-1">Quality</span>
+              <select className="input" value={exportSettings.bitrate} onChange={(e)=>update({ exportSettings: { ...exportSettings, bitrate: Number(e.target.value) } })}>
+                {BITRATE_PRESETS.map(b => <option key={b.bitrate} value={b.bitrate}>{b.label} ({b.bitrate / 1_000_000} Mbps)</option>)}
+              </select>
+            </label>
           </div>
+          {noAac && exportSettings.format === "mp4" && (
+            <p className="text-xs text-amber-300">This browser can&apos;t encode AAC audio, so videos with sound are saved as WebM (VP9/Opus).</p>
+          )}
+          <label className="flex items-center gap-2 text-xs">
+            <input type="checkbox" checked={exportSettings.subtitles} onChange={(e)=>update({ exportSettings: { ...exportSettings, subtitles: e.target.checked } })} />
+            Embed subtitle track (on-screen text and voice-over)
+            <span className="text-white/50">SRT and WebVTT files are always included</span>
+          </label>
 
           <div className="pt-2 flex gap-3">
-            <button disabled={!hasAssets || isRecording} className="btn disabled:opacity-50 disabled:cursor-not-allowed" onClick={handleGenerate}>
-              {isRecording ? "Rendering?" : "Generate Video"}
+            <button disabled={!hasAssets || !!busy} className="btn disabled:opacity-50 disabled:cursor-not-allowed" onClick={handleGenerate}>
+              {busy === "video" ? `Rendering? ${Math.round(progress * 100)}%` : "Generate Video"}
             </button>
             {videoUrl && (
-              <a className="btn" download={`cineforge-${Date.now()}.webm`} href={videoUrl}>Download</a>
+              <a className="btn" download={`${videoName}.${videoExt}`} href={videoUrl}>Download</a>
             )}
+            {videoUrl && subtitleLinks.map(l => (
+              <a key={l.name} className="self-center text-xs underline text-white/70 hover:text-white" download={l.name} href={l.url}>.{l.name.split(".").pop()}</a>
+            ))}
+          </div>
+          {error && <p className="text-xs text-red-400">{error}</p>}
+
+          <div>
+            <span className="block text-sm mb-1">Batch export</span>
+            <BatchExportPanel
+              disabled={!hasAssets || !!busy}
+              exclusive={(task)=>exclusive("batch", task)}
+              locales={[project.locale, ...project.locales.map(l => l.locale)]}
+              render={async (preset, locale, onProgress)=>{
+                await showOverride({ ...localize(project, locale) });
+                return renderCurrent(exportSettings, onProgress, preset);
+              }}
+              onDone={()=>showOverride(null)}
+            />
+          </div>
+
+          <div>
+            <span className="block text-sm mb-1">Bulk from feed</span>
+            <BulkPanel
+              project={project}
+              disabled={!!busy}
+              exclusive={(task)=>exclusive("bulk", task)}
+              onPreview={showOverride}
+              render={async (state, onProgress)=>{
+                await showOverride(state);
+                return renderCurrent(state.exportSettings, onProgress);
+              }}
+            />
           </div>
         </div>
       </section>
       <section className="lg:col-span-3 card p-2 lg:p-4">
         <VideoComposer
           ref={composerRef as any}
-          assets={assets}
-          productName={productName}
-          tagline={tagline}
-          features={features}
-          cta={cta}
-          price={price}
+          assets={view.assets}
+          productName={view.productName}
+          tagline={view.tagline}
+          features={view.features}
+          cta={view.cta}
+          price={viewPrices.price}
+          compareAtPrice={viewPrices.compareAt}
+          locale={view.locale}
           ratio={ratio}
-          style={style}
+          theme={brandedTheme}
+          brand={brand}
           audioFile={audioFile}
+          audioMix={audioMix}
+          timeline={effectiveTimeline}
+          animations={animations}
+          voiceOver={voiceOver}
+          fps={exportSettings.fps}
         />
       </section>
     </main>
@@ -0,0 +1,133 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { AssetDropzone } from "@/components/AssetDropzone";
+import { FramingEditor } from "@/components/FramingEditor";
+import { DEFAULT_CLIP, isVideoFile, type ClipSettings } from "@/lib/media";
+import type { Asset } from "@/lib/assets";
+
+interface Props {
+  assets: Asset[];
+  // Caption fallbacks by position
+  features: string[];
+  // Output width / height, for framing
+  aspect: number;
+  notice: string | null;
+  onAdd: (files: File[]) => void;
+  onMove: (id: string, toIndex: number) => void;
+  onRemove: (id: string) => void;
+  onUpdate: (id: string, patch: Partial<Omit<Asset, "id" | "file">>) => void;
+}
+
+export function AssetTray({ assets, features, aspect, notice, onAdd, onMove, onRemove, onUpdate }: Props) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+  const selectedIndex = assets.findIndex(a => a.id === selectedId);
+  const selected = assets[selectedIndex];
+
+  function drop(index: number) {
+    if (dragId) onMove(dragId, index);
+    setDragId(null);
+    setOverIndex(null);
+  }
+
+  return (
+    <div className="space-y-2">
+      <AssetDropzone onFiles={onAdd} accept="image/*,video/*" multiple />
+      {notice && <p className="text-xs text-amber-300">{notice}</p>}
+
+      {assets.length > 0 && (
+        <ol className="grid grid-cols-4 gap-2">
+          {assets.map((a, i) => (
+            <li
+              key={a.id}
+              draggable
+              onDragStart={(e)=>{ setDragId(a.id); e.dataTransfer.effectAllowed = "move"; }}
+              onDragEnd={()=>{ setDragId(null); setOverIndex(null); }}
+              onDragOver={(e)=>{ if (dragId) { e.preventDefault(); setOverIndex(i); } }}
+              onDrop={(e)=>{ e.preventDefault(); drop(i); }}
+              onClick={()=>setSelectedId(selectedId === a.id ? null : a.id)}
+              className={`group relative cursor-grab overflow-hidden rounded-md border ${
+                a.id === selectedId ? "border-brand-500" : overIndex === i && dragId !== a.id ? "border-white/60" : "border-white/10"
+              } ${dragId === a.id ? "opacity-40" : ""}`}
+              title={a.file.name}
+            >
+              <Thumb file={a.file} />
+              <span className="absolute left-1 top-1 rounded bg-black/60 px-1 text-[10px]">{i + 1}{isVideoFile(a.file) ? " ▶" : ""}</span>
+              <button
+                className="absolute right-1 top-1 hidden rounded bg-black/60 px-1 text-[10px] hover:text-red-400 group-hover:block"
+                title="Remove"
+                onClick={(e)=>{ e.stopPropagation(); onRemove(a.id); if (a.id === selectedId) setSelectedId(null); }}
+              >✕</button>
+              <span className="block truncate bg-black/40 px-1 text-[10px] text-white/70">{a.caption ?? features[i] ?? "—"}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {selected && (
+        <div className="space-y-3 rounded-lg border border-white/10 bg-white/5 p-3 text-xs">
+          <div className="grid grid-cols-3 gap-2">
+            <label className="col-span-2 block">
+              <span className="block mb-1 text-white/70">Caption</span>
+              <input className="input" value={selected.caption ?? ""} placeholder={features[selectedIndex] ?? "No caption"}
+                onChange={(e)=>onUpdate(selected.id, { caption: e.target.value === "" ? undefined : e.target.value })} />
+            </label>
+            <label className="block">
+              <span className="block mb-1 text-white/70">Duration (s)</span>
+              <input className="input" type="number" min={0.1} step={0.1} placeholder="scene"
+                value={selected.durationMs == null ? "" : selected.durationMs / 1000}
+                onChange={(e)=>{
+                  const s = Number(e.target.value);
+                  onUpdate(selected.id, { durationMs: e.target.value !== "" && s > 0 ? Math.round(s * 1000) : undefined });
+                }} />
+            </label>
+          </div>
+          {isVideoFile(selected.file) && (
+            <ClipControls clip={selected.clip ?? DEFAULT_CLIP} onChange={(clip)=>onUpdate(selected.id, { clip })} />
+          )}
+          <FramingEditor
+            file={selected.file}
+            imageIndex={selectedIndex}
+            aspect={aspect}
+            framing={selected.framing}
+            onChange={(framing)=>onUpdate(selected.id, { framing })}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Thumb({ file }: { file: File }) {
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(()=>{
+    const u = URL.createObjectURL(file);
+    setUrl(u);
+    return ()=>URL.revokeObjectURL(u);
+  }, [file]);
+  if (!url) return <div className="aspect-square bg-white/5" />;
+  return isVideoFile(file)
+    ? <video className="aspect-square w-full object-cover" src={url} muted preload="metadata" />
+    : <img className="aspect-square w-full object-cover" src={url} alt="" />;
+}
+
+function ClipControls({ clip, onChange }: { clip: ClipSettings; onChange: (clip: ClipSettings) => void }) {
+  return (
+    <div className="mb-2 flex flex-wrap items-center gap-2">
+      <span className="text-white/70">In</span>
+      <input className="w-14 rounded bg-white/5 px-1 py-0.5 text-right" type="number" min={0} step={0.1} value={clip.inMs / 1000}
+        onChange={(e)=>onChange({ ...clip, inMs: Math.max(0, Number(e.target.value) * 1000 || 0) })} />
+      <span className="text-white/70">Out</span>
+      <input className="w-14 rounded bg-white/5 px-1 py-0.5 text-right" type="number" min={0} step={0.1} placeholder="end"
+        value={clip.outMs == null ? "" : clip.outMs / 1000}
+        onChange={(e)=>onChange({ ...clip, outMs: e.target.value === "" ? null : Math.max(0, Number(e.target.value) * 1000 || 0) })} />
+      <span className="text-white/40">s</span>
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={clip.keepAudio} onChange={(e)=>onChange({ ...clip, keepAudio: e.target.checked })} />
+        Keep clip audio
+      </label>
+    </div>
+  );
+}
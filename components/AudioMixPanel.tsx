@@ -0,0 +1,71 @@
+"use client";
+
+import type { AudioMix } from "@/lib/audio";
+import type { SceneKind } from "@/lib/timeline";
+
+interface Props {
+  mix: AudioMix;
+  onChange: (mix: AudioMix) => void;
+}
+
+const DUCKABLE: { kind: SceneKind; label: string }[] = [
+  { kind: "intro", label: "Title cards" },
+  { kind: "price", label: "Price card" },
+];
+
+export function AudioMixPanel({ mix, onChange }: Props) {
+  const set = (patch: Partial<AudioMix>) => onChange({ ...mix, ...patch });
+  const toggleDuck = (kind: SceneKind, on: boolean) =>
+    set({ duckScenes: on ? [...mix.duckScenes, kind] : mix.duckScenes.filter(k => k !== kind) });
+
+  return (
+    <div className="space-y-3 rounded-lg border border-white/10 bg-white/5 p-3 text-sm">
+      <div className="grid grid-cols-2 gap-3">
+        <label className="block">
+          <span className="block text-xs mb-1 text-white/70">Start at (s)</span>
+          <input className="input" type="number" min={0} step={0.1} value={mix.offsetMs / 1000}
+            onChange={(e)=>set({ offsetMs: Math.max(0, Number(e.target.value) * 1000 || 0) })} />
+        </label>
+        <label className="block">
+          <span className="block text-xs mb-1 text-white/70">Use length (s)</span>
+          <input className="input" type="number" min={0} step={0.1} placeholder="Full video"
+            value={mix.trimMs == null ? "" : mix.trimMs / 1000}
+            onChange={(e)=>set({ trimMs: e.target.value === "" ? null : Math.max(0, Number(e.target.value) * 1000 || 0) })} />
+        </label>
+      </div>
+      <label className="block">
+        <span className="block text-xs mb-1 text-white/70">Volume {Math.round(mix.volume * 100)}%</span>
+        <input className="w-full accent-brand-500" type="range" min={0} max={1.5} step={0.05} value={mix.volume}
+          onChange={(e)=>set({ volume: Number(e.target.value) })} />
+      </label>
+      <div className="flex flex-wrap gap-4 text-xs">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={mix.fadeIn} onChange={(e)=>set({ fadeIn: e.target.checked })} />
+          Fade in over intro
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={mix.fadeOut} onChange={(e)=>set({ fadeOut: e.target.checked })} />
+          Fade out over outro
+        </label>
+      </div>
+      <div className="space-y-2 text-xs">
+        <div className="flex flex-wrap items-center gap-4">
+          <span className="text-white/70">Duck under</span>
+          {DUCKABLE.map(d => (
+            <label key={d.kind} className="flex items-center gap-2">
+              <input type="checkbox" checked={mix.duckScenes.includes(d.kind)} onChange={(e)=>toggleDuck(d.kind, e.target.checked)} />
+              {d.label}
+            </label>
+          ))}
+        </div>
+        {mix.duckScenes.length > 0 && (
+          <label className="block">
+            <span className="block mb-1 text-white/70">Ducked level {Math.round(mix.duckLevel * 100)}%</span>
+            <input className="w-full accent-brand-500" type="range" min={0} max={1} step={0.05} value={mix.duckLevel}
+              onChange={(e)=>set({ duckLevel: Number(e.target.value) })} />
+          </label>
+        )}
+      </div>
+    </div>
+  );
+}
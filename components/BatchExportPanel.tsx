@@ -0,0 +1,125 @@
+"use client";
+
+import { useState } from "react";
+import { ASPECT_RATIOS, OUTPUT_PRESETS, type OutputPreset, type RenderResult } from "@/lib/render";
+import { subtitleFiles } from "@/lib/subtitles";
+import { createZip, type ZipEntry } from "@/lib/zip";
+
+interface Props {
+  // While any export runs
+  disabled: boolean;
+  // Runs the export unless another one holds the composer
+  exclusive: (task: () => Promise<void>) => Promise<void>;
+  // Base locale first, then the project's locale variants
+  locales: string[];
+  // Render one output; resolves to the encoded video and its text track
+  render: (preset: OutputPreset, locale: string, onProgress: (p: number) => void) => Promise<RenderResult>;
+  // After the last output, e.g. to put the preview back
+  onDone?: () => void;
+}
+
+const DEFAULT_SELECTION = ["16x9-1080p", "9x16-1080p", "1x1-1080", "4x5-1080"];
+
+export function BatchExportPanel({ disabled, exclusive, locales, render, onDone }: Props) {
+  const [selected, setSelected] = useState<string[]>(DEFAULT_SELECTION);
+  // Unticked locales; new variants start ticked
+  const [skippedLocales, setSkippedLocales] = useState<string[]>([]);
+  const [progress, setProgress] = useState<Record<string, number>>({});
+  const [isRunning, setIsRunning] = useState(false);
+  const [zipUrl, setZipUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggle = (id: string, on: boolean) =>
+    setSelected(on ? [...selected, id] : selected.filter(s => s !== id));
+  const toggleLocale = (locale: string, on: boolean) =>
+    setSkippedLocales(on ? skippedLocales.filter(l => l !== locale) : [...skippedLocales, locale]);
+
+  const activeLocales = locales.filter(l => !skippedLocales.includes(l));
+  // Every preset in every ticked locale; the key doubles as the file name
+  const outputs = activeLocales.flatMap(locale => OUTPUT_PRESETS.filter(p => selected.includes(p.id)).map(preset => ({
+    preset,
+    locale,
+    key: locales.length > 1 ? `${preset.id}-${locale}` : preset.id,
+  })));
+
+  const run = () => exclusive(async ()=>{
+    if (zipUrl) URL.revokeObjectURL(zipUrl);
+    setZipUrl(null);
+    setError(null);
+    setProgress(Object.fromEntries(outputs.map(o => [o.key, 0])));
+    setIsRunning(true);
+    try {
+      const files: ZipEntry[] = [];
+      // One at a time: each render already saturates the encoder
+      for (const { preset, locale, key } of outputs) {
+        const { video, cues } = await render(preset, locale, (p)=>setProgress((prev)=>({ ...prev, [key]: p })));
+        const ext = video.type.includes("mp4") ? "mp4" : "webm";
+        files.push({ name: `cineforge-${key}.${ext}`, data: video });
+        if (cues.length) files.push(...subtitleFiles(`cineforge-${key}`, cues));
+      }
+      setZipUrl(URL.createObjectURL(await createZip(files)));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsRunning(false);
+      onDone?.();
+    }
+  });
+
+  return (
+    <div className="space-y-3 rounded-lg border border-white/10 bg-white/5 p-3 text-xs">
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+        {ASPECT_RATIOS.map(ratio => (
+          <div key={ratio} className="space-y-1">
+            {OUTPUT_PRESETS.filter(p => p.ratio === ratio).map(p => (
+              <label key={p.id} className="flex items-center gap-2">
+                <input type="checkbox" checked={selected.includes(p.id)} disabled={isRunning} onChange={(e)=>toggle(p.id, e.target.checked)} />
+                {p.label}
+                <span className="text-white/40">{p.width}×{p.height}</span>
+              </label>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      {locales.length > 1 && (
+        <div className="flex flex-wrap gap-x-4 gap-y-1">
+          <span className="text-white/60">Locales</span>
+          {locales.map(l => (
+            <label key={l} className="flex items-center gap-2">
+              <input type="checkbox" checked={!skippedLocales.includes(l)} disabled={isRunning} onChange={(e)=>toggleLocale(l, e.target.checked)} />
+              {l}
+            </label>
+          ))}
+        </div>
+      )}
+
+      {Object.keys(progress).length > 0 && (
+        <ul className="space-y-1">
+          {Object.entries(progress).map(([key, p]) => {
+            const o = outputs.find(o => o.key === key);
+            return (
+              <li key={key} className="flex items-center gap-2">
+                <span className="w-32 truncate text-white/70">{o ? `${o.preset.label}${locales.length > 1 ? ` · ${o.locale}` : ""}` : key}</span>
+                <div className="h-1.5 flex-1 overflow-hidden rounded bg-white/10">
+                  <div className="h-full bg-brand-500" style={{ width: `${Math.round(p * 100)}%` }} />
+                </div>
+                <span className="w-9 text-right text-white/50">{Math.round(p * 100)}%</span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="flex gap-3">
+        <button disabled={disabled || isRunning || outputs.length === 0} className="btn disabled:opacity-50 disabled:cursor-not-allowed" onClick={run}>
+          {isRunning ? "Exporting…" : `Export ${outputs.length} output${outputs.length === 1 ? "" : "s"}`}
+        </button>
+        {zipUrl && (
+          <a className="btn" download={`cineforge-batch-${Date.now()}.zip`} href={zipUrl}>Download ZIP</a>
+        )}
+      </div>
+      {error && <p className="text-red-400">{error}</p>}
+    </div>
+  );
+}
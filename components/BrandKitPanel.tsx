@@ -0,0 +1,90 @@
+"use client";
+
+import { AssetDropzone } from "@/components/AssetDropzone";
+import { LOGO_CORNERS, fontFamilyName, type BrandKit, type LogoCorner } from "@/lib/brand";
+
+interface Props {
+  brand: BrandKit;
+  loadedFonts: string[];
+  onChange: (brand: BrandKit) => void;
+}
+
+export function BrandKitPanel({ brand, loadedFonts, onChange }: Props) {
+  const set = (patch: Partial<BrandKit>) => onChange({ ...brand, ...patch });
+
+  const colorField = (key: "primary" | "accent", label: string, fallback: string) => (
+    <label className="flex items-center gap-2">
+      <input type="checkbox" checked={brand[key] != null} onChange={(e)=>set({ [key]: e.target.checked ? fallback : null })} />
+      <span className="text-white/70">{label}</span>
+      {brand[key] != null && (
+        <input type="color" className="h-5 w-8 bg-transparent" value={brand[key]!} onChange={(e)=>set({ [key]: e.target.value })} />
+      )}
+    </label>
+  );
+
+  const fontSelect = (key: "headingFont" | "bodyFont", label: string) => (
+    <label className="block">
+      <span className="block mb-1 text-white/70">{label}</span>
+      <select className="input" value={brand[key] ?? ""} onChange={(e)=>set({ [key]: e.target.value || null })}>
+        <option value="">Theme default</option>
+        {loadedFonts.map(f => <option key={f} value={f}>{f}</option>)}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="space-y-3 rounded-lg border border-white/10 bg-white/5 p-3 text-xs">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <span className="block mb-1 text-white/70">Logo {brand.logo && <span className="text-white/50">({brand.logo.name})</span>}</span>
+          <AssetDropzone onFiles={(fs)=>set({ logo: fs[0] ?? null })} accept="image/*" multiple={false} />
+          {brand.logo && (
+            <button className="mt-1 text-white/60 hover:text-red-400" onClick={()=>set({ logo: null })}>Remove logo</button>
+          )}
+        </div>
+        <div className="space-y-2">
+          <label className="block">
+            <span className="block mb-1 text-white/70">Watermark corner</span>
+            <select className="input" value={brand.logoCorner} onChange={(e)=>set({ logoCorner: e.target.value as LogoCorner })}>
+              {LOGO_CORNERS.map(c => <option key={c} value={c}>{c.replace("-", " ")}</option>)}
+            </select>
+          </label>
+          <label className="block">
+            <span className="block mb-1 text-white/70">Size {Math.round(brand.logoScale * 100)}%</span>
+            <input className="w-full accent-brand-500" type="range" min={0.04} max={0.3} step={0.01} value={brand.logoScale}
+              onChange={(e)=>set({ logoScale: Number(e.target.value) })} />
+          </label>
+          <label className="block">
+            <span className="block mb-1 text-white/70">Opacity {Math.round(brand.logoOpacity * 100)}%</span>
+            <input className="w-full accent-brand-500" type="range" min={0.1} max={1} step={0.05} value={brand.logoOpacity}
+              onChange={(e)=>set({ logoOpacity: Number(e.target.value) })} />
+          </label>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-4">
+        {colorField("primary", "Primary (price background)", "#1f1c2c")}
+        {colorField("accent", "Accent (CTA)", "#6366f1")}
+      </div>
+
+      <div>
+        <span className="block mb-1 text-white/70">Fonts</span>
+        <AssetDropzone onFiles={(fs)=>set({ fonts: [...brand.fonts.filter(f => !fs.some(n => n.name === f.name)), ...fs] })} accept=".ttf,.otf,.woff,.woff2" multiple />
+        {brand.fonts.length > 0 && (
+          <ul className="mt-1 space-y-0.5">
+            {brand.fonts.map(f => (
+              <li key={f.name} className="flex items-center justify-between">
+                <span className={loadedFonts.includes(fontFamilyName(f)) ? "" : "text-red-400"}>{fontFamilyName(f)}</span>
+                <button className="text-white/60 hover:text-red-400" onClick={()=>set({ fonts: brand.fonts.filter(x => x !== f) })}>✕</button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        {fontSelect("headingFont", "Heading font")}
+        {fontSelect("bodyFont", "Body font")}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+"use client";
+
+import { useRef, useState } from "react";
+import clsx from "clsx";
+import { AssetDropzone } from "@/components/AssetDropzone";
+import { downloadBlob } from "@/lib/download";
+import {
+  FEED_FIELDS,
+  applyFeedRow,
+  guessMapping,
+  outputName,
+  parseFeed,
+  resolveRowImages,
+  rowImageRefs,
+  type Feed,
+  type FeedMapping,
+} from "@/lib/feed";
+import type { ProjectState } from "@/lib/project";
+import type { RenderResult } from "@/lib/render";
+import { subtitleFiles, type Cue } from "@/lib/subtitles";
+import { createZip } from "@/lib/zip";
+
+interface Props {
+  project: ProjectState;
+  // While any export runs
+  disabled: boolean;
+  // Runs the queue unless another export holds the composer
+  exclusive: (task: () => Promise<void>) => Promise<void>;
+  // Show a row's variant in the preview (null returns to the editor);
+  // resolves once the preview is ready
+  onPreview: (state: ProjectState | null) => Promise<void>;
+  // Render one variant; resolves to the encoded video and its text track
+  render: (state: ProjectState, onProgress: (p: number) => void) => Promise<RenderResult>;
+}
+
+type JobStatus = "queued" | "rendering" | "done" | "failed";
+
+interface Job {
+  row: number;
+  name: string;
+  status: JobStatus;
+  progress: number;
+  attempts: number;
+  error?: string;
+  output?: { blob: Blob; url: string; ext: string; cues: Cue[] };
+}
+
+// Tries per row and run; failed rows can be queued again by hand
+const MAX_ATTEMPTS = 2;
+const DEFAULT_TEMPLATE = "{#}-{productName}";
+
+const STATUS_CLASS: Record<JobStatus, string> = {
+  queued: "text-white/50",
+  rendering: "text-brand-400",
+  done: "text-green-400",
+  failed: "text-red-400",
+};
+
+export function BulkPanel({ project, disabled, exclusive, onPreview, render }: Props) {
+  const [feed, setFeed] = useState<Feed | null>(null);
+  const [mapping, setMapping] = useState<FeedMapping>({});
+  const [template, setTemplate] = useState(DEFAULT_TEMPLATE);
+  // Images referenced by file name, on top of the tray's own files
+  const [images, setImages] = useState<File[]>([]);
+  const [previewRow, setPreviewRow] = useState<number | null>(null);
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const stopRef = useRef(false);
+
+  const library = [...images, ...project.assets.map(a => a.file)];
+  const patchJob = (row: number, patch: Partial<Job>) =>
+    setJobs((prev)=>prev.map(j => j.row === row ? { ...j, ...patch } : j));
+
+  async function loadFeed(file: File) {
+    setError(null);
+    try {
+      const next = parseFeed(await file.text(), file.name);
+      if (!next.rows.length) throw new Error("Feed has no rows");
+      const guessed = guessMapping(next.columns);
+      setFeed(next);
+      setMapping(guessed);
+      // {productName} only works when it is also a column; fall back to the row number
+      setTemplate(guessed.productName ? `{#}-{${guessed.productName}}` : "row-{#}");
+      clearJobs();
+      await preview(null);
+    } catch (e) {
+      setError(`Could not read feed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  async function variant(row: number) {
+    const data = feed!.rows[row];
+    return applyFeedRow(project, data, mapping, await resolveRowImages(rowImageRefs(data, mapping), library));
+  }
+
+  async function preview(row: number | null) {
+    setError(null);
+    try {
+      await onPreview(row === null ? null : await variant(row));
+      setPreviewRow(row);
+    } catch (e) {
+      setError(`${row === null ? "Preview" : `Row ${row + 1}`}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  function clearJobs() {
+    setJobs((prev)=>{
+      for (const j of prev) if (j.output) URL.revokeObjectURL(j.output.url);
+      return [];
+    });
+  }
+
+  // One row at a time, each retried up to MAX_ATTEMPTS before it is marked failed
+  const runQueue = (queue: Job[]) => exclusive(async ()=>{
+    stopRef.current = false;
+    setIsRunning(true);
+    setError(null);
+    try {
+      for (const job of queue) {
+        if (stopRef.current) break;
+        let attempts = job.attempts;
+        while (attempts < job.attempts + MAX_ATTEMPTS && !stopRef.current) {
+          attempts++;
+          patchJob(job.row, { status: "rendering", progress: 0, attempts, error: undefined });
+          try {
+            const { video, cues } = await render(await variant(job.row), (p)=>patchJob(job.row, { progress: p }));
+            const ext = video.type.includes("mp4") ? "mp4" : "webm";
+            patchJob(job.row, { status: "done", progress: 1, output: { blob: video, url: URL.createObjectURL(video), ext, cues } });
+            break;
+          } catch (e) {
+            patchJob(job.row, { status: "failed", error: e instanceof Error ? e.message : String(e) });
+          }
+        }
+      }
+    } finally {
+      setIsRunning(false);
+      await preview(null);
+    }
+  });
+
+  function renderAll() {
+    if (!feed) return;
+    clearJobs();
+    const queue = feed.rows.map((data, row): Job => ({ row, name: outputName(template, data, row), status: "queued", progress: 0, attempts: 0 }));
+    setJobs(queue);
+    runQueue(queue);
+  }
+
+  function retry(rows: Job[]) {
+    const queue = rows.map((j): Job => ({ ...j, name: outputName(template, feed!.rows[j.row], j.row), status: "queued", progress: 0 }));
+    setJobs((prev)=>prev.map(j => queue.find(q => q.row === j.row) ?? j));
+    runQueue(queue);
+  }
+
+  async function downloadZip() {
+    const done = jobs.filter(j => j.output);
+    const zip = await createZip(done.flatMap(j => [
+      { name: `${j.name}.${j.output!.ext}`, data: j.output!.blob },
+      ...(j.output!.cues.length ? subtitleFiles(j.name, j.output!.cues) : []),
+    ]));
+    downloadBlob(zip, `cineforge-bulk-${Date.now()}.zip`);
+  }
+
+  const failed = jobs.filter(j => j.status === "failed");
+  const doneCount = jobs.filter(j => j.status === "done").length;
+
+  return (
+    <div className="space-y-3 rounded-lg border border-white/10 bg-white/5 p-3 text-xs">
+      <label className="flex items-center gap-2">
+        <span className="w-20 text-white/60">Feed</span>
+        <input type="file" accept=".csv,.json,text/csv,application/json" disabled={disabled} onChange={(e)=>{ const f = e.target.files?.[0]; if (f) loadFeed(f); e.target.value = ""; }} />
+      </label>
+
+      {feed && (
+        <>
+          <p className="text-white/50">{feed.rows.length} row{feed.rows.length === 1 ? "" : "s"}, {feed.columns.length} columns. Unmapped fields keep the editor&apos;s values; list cells split on | or new lines.</p>
+          <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+            {FEED_FIELDS.map(({ field, label }) => (
+              <label key={field} className="flex items-center gap-2">
+                <span className="w-20 text-white/60">{label}</span>
+                <select className="flex-1 rounded bg-white/5 px-1 py-0.5" value={mapping[field] ?? ""} disabled={isRunning} onChange={(e)=>setMapping({ ...mapping, [field]: e.target.value || undefined })}>
+                  <option className="bg-neutral-900" value="">—</option>
+                  {feed.columns.map(c => <option key={c} className="bg-neutral-900" value={c}>{c}</option>)}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          {mapping.images && (
+            <div className="space-y-1">
+              <span className="text-white/60">Images named in the feed (tray files and URLs also work)</span>
+              <AssetDropzone accept="image/*" onFiles={(fs)=>setImages((prev)=>[...prev.filter(p => !fs.some(f => f.name === p.name)), ...fs])} />
+              {images.length > 0 && (
+                <p className="text-white/50">
+                  {images.length} file{images.length === 1 ? "" : "s"} ·{" "}
+                  <button className="underline hover:text-white" onClick={()=>setImages([])}>clear</button>
+                </p>
+              )}
+            </div>
+          )}
+
+          <label className="flex items-center gap-2">
+            <span className="w-20 text-white/60">File name</span>
+            <input className="flex-1 rounded bg-white/5 px-1 py-0.5" value={template} disabled={isRunning} onChange={(e)=>setTemplate(e.target.value)} />
+          </label>
+          <p className="text-white/40">Use {"{column}"} for feed values and {"{#}"} for the row number.</p>
+
+          <ul className="max-h-64 space-y-1 overflow-y-auto">
+            {feed.rows.map((data, row) => {
+              const job = jobs.find(j => j.row === row);
+              return (
+                <li key={row} className={clsx("flex items-center gap-2 rounded px-1 py-0.5", previewRow === row && "bg-white/10")}>
+                  <span className="w-6 text-right text-white/40">{row + 1}</span>
+                  <span className="flex-1 truncate" title={job?.error}>{job?.name ?? outputName(template, data, row)}</span>
+                  {job && (
+                    <span className={STATUS_CLASS[job.status]} title={job.error}>
+                      {job.status === "rendering" ? `${Math.round(job.progress * 100)}%` : job.status}
+                      {job.attempts > 1 && ` (try ${job.attempts})`}
+                    </span>
+                  )}
+                  {job?.output && <a className="rounded border border-white/10 px-2 py-1 hover:bg-white/10" download={`${job.name}.${job.output.ext}`} href={job.output.url}>↓</a>}
+                  {job?.status === "failed" && !isRunning && <button className="rounded border border-white/10 px-2 py-1 hover:bg-white/10" onClick={()=>retry([job])}>Retry</button>}
+                  <button disabled={disabled} className="rounded border border-white/10 px-2 py-1 hover:bg-white/10 disabled:opacity-40" onClick={()=>preview(previewRow === row ? null : row)}>
+                    {previewRow === row ? "Editor" : "Preview"}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+
+          <div className="flex flex-wrap gap-3">
+            {isRunning ? (
+              <button className="btn" onClick={()=>{ stopRef.current = true; }}>Stop after current</button>
+            ) : (
+              <button disabled={disabled} className="btn disabled:opacity-50 disabled:cursor-not-allowed" onClick={renderAll}>
+                Render {feed.rows.length} row{feed.rows.length === 1 ? "" : "s"}
+              </button>
+            )}
+            {!isRunning && failed.length > 0 && (
+              <button disabled={disabled} className="btn disabled:opacity-50" onClick={()=>retry(failed)}>Retry {failed.length} failed</button>
+            )}
+            {!isRunning && doneCount > 0 && (
+              <button className="btn" onClick={downloadZip}>Download ZIP ({doneCount})</button>
+            )}
+          </div>
+        </>
+      )}
+      {error && <p className="text-red-400">{error}</p>}
+    </div>
+  );
+}
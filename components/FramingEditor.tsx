@@ -0,0 +1,156 @@
+"use client";
+
+import { useEffect, useRef, useState, type PointerEvent } from "react";
+import { EASINGS, type EasingName } from "@/lib/easing";
+import { MAX_ZOOM, cropRect, pathFraming, withFocus, type FocalPoint, type Framing } from "@/lib/kenburns";
+import { loadStill } from "@/lib/media";
+import { findFocalPoint } from "@/lib/saliency";
+
+interface Props {
+  file: File | undefined;
+  imageIndex: number;
+  // Output width / height
+  aspect: number;
+  framing: Framing | undefined;
+  onChange: (framing: Framing | undefined) => void;
+}
+
+const PREVIEW_W = 240;
+const START_COLOR = "#34d399";
+const END_COLOR = "#fbbf24";
+
+type DragTarget = "focus" | "start" | "end";
+
+export function FramingEditor({ file, imageIndex, aspect, framing, onChange }: Props) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const dragRef = useRef<{ target: DragTarget; x: number; y: number } | null>(null);
+  const [bitmap, setBitmap] = useState<ImageBitmap | null>(null);
+  const [detected, setDetected] = useState<FocalPoint | null>(null);
+
+  useEffect(()=>{
+    let cancelled = false;
+    setBitmap(null);
+    setDetected(null);
+    if (!file) return;
+    loadStill(file).then((bmp)=>{
+      if (cancelled || !bmp) return;
+      setBitmap(bmp);
+      setDetected(findFocalPoint(bmp));
+    });
+    return ()=>{ cancelled = true; };
+  }, [file]);
+
+  const current = framing ?? pathFraming(imageIndex);
+  const shown = current.auto && detected ? withFocus(current, detected) : current;
+
+  // Thumbnail with start / end crops and the focal point
+  useEffect(()=>{
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx || !bitmap) return;
+    const s = PREVIEW_W / bitmap.width;
+    canvas.width = PREVIEW_W;
+    canvas.height = Math.round(bitmap.height * s);
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = "rgba(0,0,0,0.35)";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    for (const [key, color] of [[shown.start, START_COLOR], [shown.end, END_COLOR]] as const) {
+      const r = cropRect(key, bitmap.width, bitmap.height, aspect);
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 2;
+      ctx.strokeRect(r.x * s, r.y * s, r.w * s, r.h * s);
+    }
+    ctx.fillStyle = "#ffffff";
+    ctx.beginPath();
+    ctx.arc(shown.focus.x * canvas.width, shown.focus.y * canvas.height, 5, 0, Math.PI * 2);
+    ctx.fill();
+  }, [bitmap, shown, aspect]);
+
+  // Pointer position as fractions of the image
+  function pointerPos(e: PointerEvent<HTMLCanvasElement>) {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)),
+      y: Math.max(0, Math.min(1, (e.clientY - rect.top) / rect.height)),
+    };
+  }
+
+  function hitTest(p: FocalPoint): DragTarget {
+    if (!bitmap || current.auto) return "focus";
+    const near = Math.hypot((p.x - shown.focus.x) * PREVIEW_W, (p.y - shown.focus.y) * PREVIEW_W * bitmap.height / bitmap.width) < 8;
+    if (near) return "focus";
+    for (const target of ["end", "start"] as const) {
+      const r = cropRect(shown[target], bitmap.width, bitmap.height, aspect);
+      const x = p.x * bitmap.width, y = p.y * bitmap.height;
+      if (x >= r.x && x <= r.x + r.w && y >= r.y && y <= r.y + r.h) return target;
+    }
+    return "focus";
+  }
+
+  function onPointerDown(e: PointerEvent<HTMLCanvasElement>) {
+    const p = pointerPos(e);
+    const target = hitTest(p);
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { target, ...p };
+    // Placing the focal point by hand switches off auto framing
+    if (target === "focus") onChange(withFocus({ ...current, auto: false }, p));
+  }
+
+  function onPointerMove(e: PointerEvent<HTMLCanvasElement>) {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const p = pointerPos(e);
+    if (drag.target === "focus") {
+      onChange(withFocus({ ...current, auto: false }, p));
+    } else {
+      const key = current[drag.target];
+      const cx = Math.max(0, Math.min(1, key.cx + p.x - drag.x));
+      const cy = Math.max(0, Math.min(1, key.cy + p.y - drag.y));
+      onChange({ ...current, [drag.target]: { ...key, cx, cy } });
+    }
+    dragRef.current = { ...drag, ...p };
+  }
+
+  const zoomSlider = (target: "start" | "end", label: string, color: string) => (
+    <label className="block">
+      <span className="block mb-1" style={{ color }}>{label} zoom {current[target].zoom.toFixed(2)}×</span>
+      <input className="w-full accent-brand-500" type="range" min={1} max={MAX_ZOOM} step={0.01} value={current[target].zoom}
+        onChange={(e)=>onChange({ ...current, [target]: { ...current[target], zoom: Number(e.target.value) } })} />
+    </label>
+  );
+
+  if (!file) return <p className="text-xs text-white/50">No image for this scene.</p>;
+
+  return (
+    <div className="flex flex-wrap gap-3 text-xs">
+      <canvas
+        ref={canvasRef}
+        className="cursor-crosshair touch-none rounded border border-white/10"
+        style={{ width: PREVIEW_W }}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={()=>{ dragRef.current = null; }}
+        onPointerCancel={()=>{ dragRef.current = null; }}
+      />
+      <div className="min-w-[10rem] flex-1 space-y-2">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={current.auto} onChange={(e)=>onChange({ ...current, auto: e.target.checked })} />
+          Keep subject in frame (auto)
+        </label>
+        {zoomSlider("start", "Start", START_COLOR)}
+        {zoomSlider("end", "End", END_COLOR)}
+        <label className="block">
+          <span className="block mb-1 text-white/70">Easing</span>
+          <select className="input" value={current.easing} onChange={(e)=>onChange({ ...current, easing: e.target.value as EasingName })}>
+            {(Object.keys(EASINGS) as EasingName[]).map(k => <option key={k} value={k}>{k}</option>)}
+          </select>
+        </label>
+        <p className="text-white/50">Drag the dot to set the focal point, or drag a rectangle to move that end of the move.</p>
+        {framing && (
+          <button className="text-white/60 hover:text-white" onClick={()=>onChange(undefined)}>Reset to default motion</button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import { useState } from "react";
+import clsx from "clsx";
+import {
+  COMMON_CURRENCIES,
+  COMMON_LOCALES,
+  isValidLocale,
+  localize,
+  priceLabels,
+  textDirection,
+  type LocaleVariant,
+  type Pricing,
+} from "@/lib/locale";
+import type { ProjectState } from "@/lib/project";
+
+type LocaleFields = Pick<ProjectState, "productName" | "tagline" | "features" | "price" | "cta" | "locale" | "pricing" | "locales">;
+
+interface Props {
+  project: LocaleFields;
+  // Locale shown in the preview; null is the base copy
+  previewLocale: string | null;
+  onPreview: (locale: string | null) => void;
+  onChange: (patch: Partial<LocaleFields>) => void;
+}
+
+const amountValue = (v: number | null | undefined) => v == null ? "" : String(v);
+const parseAmount = (v: string) => v.trim() === "" ? null : Math.max(0, Number(v) || 0);
+
+export function LocalePanel({ project, previewLocale, onPreview, onChange }: Props) {
+  const { locale, pricing, locales } = project;
+  const [draft, setDraft] = useState("");
+  const [open, setOpen] = useState<string | null>(null);
+
+  const taken = new Set([locale, ...locales.map(l => l.locale)]);
+  const canAdd = isValidLocale(draft) && !taken.has(Intl.getCanonicalLocales(draft)[0]);
+
+  function addVariant() {
+    if (!canAdd) return;
+    const tag = Intl.getCanonicalLocales(draft)[0];
+    onChange({ locales: [...locales, { locale: tag }] });
+    setOpen(tag);
+    setDraft("");
+  }
+
+  function setVariant(tag: string, patch: Partial<LocaleVariant>) {
+    onChange({ locales: locales.map(l => l.locale === tag ? { ...l, ...patch } : l) });
+  }
+
+  function removeVariant(tag: string) {
+    onChange({ locales: locales.filter(l => l.locale !== tag) });
+    if (previewLocale === tag) onPreview(null);
+  }
+
+  const labels = priceLabels(project);
+
+  // Amount, regular price and currency; variant fields left empty inherit
+  const pricingInputs = (value: Partial<Pricing>, set: (p: Partial<Pricing>) => void, inherited?: Pricing) => (
+    <div className="flex items-center gap-1">
+      <input className="w-20 rounded bg-white/5 px-1 py-0.5" type="number" min={0} step="any" placeholder={inherited ? amountValue(inherited.amount) || "amount" : "amount"}
+        value={amountValue(value.amount)} onChange={(e)=>set({ amount: parseAmount(e.target.value) ?? (inherited ? undefined : null) })} />
+      <span className="text-white/50">was</span>
+      <input className="w-20 rounded bg-white/5 px-1 py-0.5" type="number" min={0} step="any" placeholder={inherited ? amountValue(inherited.compareAt) || "—" : "—"}
+        value={amountValue(value.compareAt)} onChange={(e)=>set({ compareAt: parseAmount(e.target.value) ?? (inherited ? undefined : null) })} />
+      <input className="w-14 rounded bg-white/5 px-1 py-0.5 uppercase" list="cineforge-currencies" maxLength={3} placeholder={inherited?.currency ?? "USD"}
+        value={value.currency ?? ""} onChange={(e)=>{ const c = e.target.value.toUpperCase(); set({ currency: c || (inherited ? undefined : "USD") }); }} />
+    </div>
+  );
+
+  return (
+    <div className="space-y-3 rounded-lg border border-white/10 bg-white/5 p-3 text-xs">
+      <datalist id="cineforge-locales">{COMMON_LOCALES.map(l => <option key={l} value={l} />)}</datalist>
+      <datalist id="cineforge-currencies">{COMMON_CURRENCIES.map(c => <option key={c} value={c} />)}</datalist>
+
+      <label className="flex items-center gap-2">
+        <span className="w-20 text-white/60">Base locale</span>
+        <LocaleInput value={locale} onCommit={(tag)=>!taken.has(tag) && onChange({ locale: tag })} />
+      </label>
+
+      <div className="flex items-center gap-2">
+        <span className="w-20 text-white/60">Price</span>
+        {pricingInputs(pricing, (p)=>onChange({ pricing: { ...pricing, ...p } as Pricing }))}
+      </div>
+      <p className="text-white/50">
+        {pricing.amount === null ? "No amount: the Price field is shown as typed." : (
+          <>Shows {labels.compareAt && <s className="mr-1">{labels.compareAt}</s>}{labels.price}</>
+        )}
+      </p>
+
+      <ul className="space-y-1">
+        <li className={clsx("flex items-center gap-2 rounded px-1 py-0.5", previewLocale === null && "bg-white/10")}>
+          <span className="flex-1">{locale} <span className="text-white/40">base</span></span>
+          <button className="rounded border border-white/10 px-2 py-1 hover:bg-white/10" onClick={()=>onPreview(null)}>Preview</button>
+        </li>
+        {locales.map(v => {
+          const text = (key: "productName" | "tagline" | "cta" | "price", label: string) => (
+            <label className="flex items-center gap-2">
+              <span className="w-20 text-white/60">{label}</span>
+              <input className="flex-1 rounded bg-white/5 px-1 py-0.5" dir={textDirection(v.locale)} placeholder={project[key]}
+                value={v[key] ?? ""} onChange={(e)=>setVariant(v.locale, { [key]: e.target.value || undefined })} />
+            </label>
+          );
+          return (
+            <li key={v.locale} className={clsx("space-y-2 rounded px-1 py-0.5", previewLocale === v.locale && "bg-white/10")}>
+              <div className="flex items-center gap-2">
+                <button className="flex-1 text-left" onClick={()=>setOpen(open === v.locale ? null : v.locale)}>
+                  {open === v.locale ? "▾" : "▸"} {v.locale}
+                  <span className="ml-2 text-white/40">{priceLabels(localize(project, v.locale)).price}</span>
+                </button>
+                <button className="rounded border border-white/10 px-2 py-1 hover:bg-white/10" onClick={()=>onPreview(v.locale)}>Preview</button>
+                <button className="rounded border border-white/10 px-2 py-1 hover:bg-white/10" title="Remove locale" onClick={()=>removeVariant(v.locale)}>✕</button>
+              </div>
+              {open === v.locale && (
+                <div className="space-y-1 pl-3">
+                  {text("productName", "Product")}
+                  {text("tagline", "Tagline")}
+                  <label className="flex items-start gap-2">
+                    <span className="w-20 text-white/60">Features</span>
+                    <textarea className="h-16 flex-1 rounded bg-white/5 px-1 py-0.5" dir={textDirection(v.locale)} placeholder={project.features.join("\n")}
+                      value={v.features?.join("\n") ?? ""} onChange={(e)=>{ const f = e.target.value.split("\n").filter(Boolean); setVariant(v.locale, { features: f.length ? f : undefined }); }} />
+                  </label>
+                  {text("cta", "CTA")}
+                  {text("price", "Price text")}
+                  <div className="flex items-center gap-2">
+                    <span className="w-20 text-white/60">Amount</span>
+                    {pricingInputs(v.pricing ?? {}, (p)=>setVariant(v.locale, { pricing: { ...v.pricing, ...p } }), pricing)}
+                  </div>
+                  <p className="text-white/40">Empty fields use the base copy.</p>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="flex items-center gap-2">
+        <input className="flex-1 rounded bg-white/5 px-1 py-0.5" list="cineforge-locales" placeholder="Add locale, e.g. de-DE" value={draft}
+          onChange={(e)=>setDraft(e.target.value)} onKeyDown={(e)=>{ if (e.key === "Enter") addVariant(); }} />
+        <button disabled={!canAdd} className="rounded border border-white/10 px-2 py-1 hover:bg-white/10 disabled:opacity-40" onClick={addVariant}>Add</button>
+      </div>
+    </div>
+  );
+}
+
+// Edits a locale tag as free text and commits valid ones on blur or Enter
+function LocaleInput({ value, onCommit }: { value: string; onCommit: (tag: string) => void }) {
+  const [text, setText] = useState(value);
+  const [prev, setPrev] = useState(value);
+  if (prev !== value) { setPrev(value); setText(value); }
+  const commit = () => {
+    if (isValidLocale(text)) onCommit(Intl.getCanonicalLocales(text)[0]);
+    else setText(value);
+  };
+  return (
+    <input className={clsx("flex-1 rounded bg-white/5 px-1 py-0.5", !isValidLocale(text) && "text-red-400")} list="cineforge-locales" value={text}
+      onChange={(e)=>setText(e.target.value)} onBlur={commit} onKeyDown={(e)=>{ if (e.key === "Enter") commit(); }} />
+  );
+}
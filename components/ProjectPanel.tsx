@@ -0,0 +1,71 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { BUNDLE_EXTENSION, type ProjectMeta } from "@/lib/project";
+
+interface Props {
+  projects: ProjectMeta[];
+  current: ProjectMeta;
+  status: string | null;
+  onOpen: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+const BUTTON = "rounded border border-white/10 px-2 py-1 hover:bg-white/10";
+
+export function ProjectPanel({ projects, current, status, onOpen, onNew, onRename, onDuplicate, onDelete, onExport, onImport }: Props) {
+  const fileRef = useRef<HTMLInputElement | null>(null);
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+
+  // The open project is listed even before its first autosave
+  const list = projects.some(p => p.id === current.id) ? projects : [current, ...projects];
+
+  function commitRename(id: string) {
+    const name = draft.trim();
+    if (name) onRename(id, name);
+    setRenaming(null);
+  }
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="flex flex-wrap items-center gap-2">
+        <button className={BUTTON} onClick={onNew}>New</button>
+        <button className={BUTTON} onClick={onExport}>Export {BUNDLE_EXTENSION}</button>
+        <button className={BUTTON} onClick={()=>fileRef.current?.click()}>Import {BUNDLE_EXTENSION}</button>
+        <input ref={fileRef} className="hidden" type="file" accept={`${BUNDLE_EXTENSION},application/zip`} onChange={(e)=>{
+          const f = e.target.files?.[0];
+          if (f) onImport(f);
+          e.target.value = "";
+        }} />
+        {status && <span className="text-white/50">{status}</span>}
+      </div>
+      <ul className="max-h-48 overflow-y-auto rounded-lg border border-white/10 bg-white/5 divide-y divide-white/5">
+        {list.map(p => (
+          <li key={p.id} className="flex items-center gap-2 px-2 py-1.5">
+            {renaming === p.id ? (
+              <input autoFocus className="flex-1 rounded bg-white/5 px-1 py-0.5" value={draft}
+                onChange={(e)=>setDraft(e.target.value)}
+                onBlur={()=>commitRename(p.id)}
+                onKeyDown={(e)=>{ if (e.key === "Enter") commitRename(p.id); if (e.key === "Escape") setRenaming(null); }} />
+            ) : (
+              <button className={`flex-1 truncate text-left ${p.id === current.id ? "font-medium text-brand-500" : "text-white/80 hover:text-white"}`}
+                onClick={()=>p.id !== current.id && onOpen(p.id)}>
+                {p.name}
+              </button>
+            )}
+            <span className="text-white/40">{new Date(p.updatedAt).toLocaleString(undefined, { dateStyle: "short", timeStyle: "short" })}</span>
+            <button className="text-white/60 hover:text-white" title="Rename" onClick={()=>{ setDraft(p.name); setRenaming(p.id); }}>✎</button>
+            <button className="text-white/60 hover:text-white" title="Duplicate" onClick={()=>onDuplicate(p.id)}>⧉</button>
+            <button className="text-white/60 hover:text-red-400" title="Delete" onClick={()=>{ if (confirm(`Delete "${p.name}"?`)) onDelete(p.id); }}>✕</button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+"use client";
+
+import type { Asset } from "@/lib/assets";
+import type { GridLayout, SceneKind, SceneOf, SceneParams, SpecRow, TimelineScene } from "@/lib/timeline";
+
+type ConfigurableKind = "grid" | "compare" | "review" | "specs" | "countdown";
+
+interface Props {
+  scene: SceneOf<ConfigurableKind>;
+  // Asset tray, for the images of grid and comparison scenes
+  assets: Asset[];
+  // merge for typing and dragging, as in the timeline editor
+  onChange: (params: Partial<SceneParams[ConfigurableKind]>, merge?: boolean) => void;
+}
+
+const CONFIGURABLE_KINDS: SceneKind[] = ["grid", "compare", "review", "specs", "countdown"];
+
+export function isConfigurable(scene: TimelineScene): scene is SceneOf<ConfigurableKind> {
+  return CONFIGURABLE_KINDS.includes(scene.kind);
+}
+
+export const GRID_SLOTS: Record<GridLayout, number> = { "2x2": 4, "3up": 3 };
+
+const inputClass = "flex-1 rounded bg-white/5 px-1 py-0.5";
+
+// Per-kind settings, shown under a scene's row in the timeline editor
+export function SceneSettings({ scene, assets, onChange }: Props) {
+  const row = (label: string, control: React.ReactNode) => (
+    <label className="flex items-center gap-2">
+      <span className="w-20 text-white/60">{label}</span>
+      {control}
+    </label>
+  );
+  const assetSelect = (value: string, set: (id: string) => void) => (
+    <select className={inputClass} value={value} onChange={(e)=>set(e.target.value)}>
+      {!assets.some(a => a.id === value) && <option value={value} className="bg-neutral-900">—</option>}
+      {assets.map((a, n) => <option key={a.id} value={a.id} className="bg-neutral-900">#{n + 1} {a.file.name}</option>)}
+    </select>
+  );
+  // Empty text fields fall back to the default copy
+  const text = (value: string | undefined, placeholder: string, set: (v: string | undefined) => void) => (
+    <input className={inputClass} placeholder={placeholder} value={value ?? ""} onChange={(e)=>set(e.target.value || undefined)} />
+  );
+
+  if (scene.kind === "grid") {
+    const { assetIds, layout, labels = [] } = scene.params;
+    // Resize the slot list with the layout, filling new slots from the tray
+    const setLayout = (next: GridLayout) => {
+      const ids = Array.from({ length: GRID_SLOTS[next] }, (_, i) => assetIds[i] ?? assets[i % Math.max(1, assets.length)]?.id ?? "");
+      onChange({ layout: next, assetIds: ids, labels: labels.slice(0, ids.length) });
+    };
+    return (
+      <div className="space-y-1 pl-7 pt-1">
+        {row("Layout", (
+          <select className={inputClass} value={layout} onChange={(e)=>setLayout(e.target.value as GridLayout)}>
+            <option value="2x2" className="bg-neutral-900">2 × 2</option>
+            <option value="3up" className="bg-neutral-900">3-up</option>
+          </select>
+        ))}
+        {row("Title", text(scene.params.title, "None", (title)=>onChange({ title }, true)))}
+        {assetIds.map((id, i) => (
+          <div key={i} className="flex items-center gap-2">
+            <span className="w-20 text-white/60">Tile {i + 1}</span>
+            {assetSelect(id, (next)=>onChange({ assetIds: assetIds.map((a, k) => k === i ? next : a) }))}
+            <input className={inputClass} placeholder={`Feature ${i + 1}`} value={labels[i] ?? ""} onChange={(e)=>{
+              const next = assetIds.map((_, k) => k === i ? e.target.value : labels[k] ?? "");
+              onChange({ labels: next.some(Boolean) ? next : undefined }, true);
+            }} />
+          </div>
+        ))}
+        <p className="text-white/40">Empty labels use the features list.</p>
+      </div>
+    );
+  }
+
+  if (scene.kind === "compare") {
+    const { beforeId, afterId } = scene.params;
+    return (
+      <div className="space-y-1 pl-7 pt-1">
+        <div className="flex items-center gap-2">
+          <span className="w-20 text-white/60">Before</span>
+          {assetSelect(beforeId, (id)=>onChange({ beforeId: id }))}
+          {text(scene.params.beforeLabel, "Before", (beforeLabel)=>onChange({ beforeLabel }, true))}
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="w-20 text-white/60">After</span>
+          {assetSelect(afterId, (id)=>onChange({ afterId: id }))}
+          {text(scene.params.afterLabel, "After", (afterLabel)=>onChange({ afterLabel }, true))}
+        </div>
+      </div>
+    );
+  }
+
+  if (scene.kind === "review") {
+    return (
+      <div className="space-y-1 pl-7 pt-1">
+        <label className="flex items-start gap-2">
+          <span className="w-20 text-white/60">Quote</span>
+          <textarea className={`h-14 ${inputClass}`} value={scene.params.quote} onChange={(e)=>onChange({ quote: e.target.value }, true)} />
+        </label>
+        {row("Author", text(scene.params.author, "Anonymous", (author)=>onChange({ author }, true)))}
+        {row("Rating", (
+          <>
+            <input type="range" className="flex-1" min={0} max={5} step={0.5} value={scene.params.rating} onChange={(e)=>onChange({ rating: Number(e.target.value) }, true)} />
+            <span className="w-8 text-right text-white/60">{scene.params.rating}</span>
+          </>
+        ))}
+      </div>
+    );
+  }
+
+  if (scene.kind === "specs") {
+    const rows = scene.params.rows;
+    const setRow = (i: number, patch: Partial<SpecRow>) => onChange({ rows: rows.map((r, k) => k === i ? { ...r, ...patch } : r) }, true);
+    return (
+      <div className="space-y-1 pl-7 pt-1">
+        {row("Title", text(scene.params.title, "None", (title)=>onChange({ title }, true)))}
+        {rows.map((r, i) => (
+          <div key={i} className="flex items-center gap-2">
+            <input className={inputClass} placeholder="Label" value={r.label} onChange={(e)=>setRow(i, { label: e.target.value })} />
+            <input className={inputClass} placeholder="Value" value={r.value} onChange={(e)=>setRow(i, { value: e.target.value })} />
+            <button className="px-1 text-white/60 hover:text-red-400" title="Remove row" onClick={()=>onChange({ rows: rows.filter((_, k) => k !== i) })}>✕</button>
+          </div>
+        ))}
+        <button className="rounded border border-white/10 px-2 py-1 hover:bg-white/10" onClick={()=>onChange({ rows: [...rows, { label: "", value: "" }] })}>Add row</button>
+      </div>
+    );
+  }
+
+  // Countdown: remaining time at the start of the scene, as days / hours / minutes
+  const total = Math.round(scene.params.remainingMs / 60_000);
+  const parts = { days: Math.floor(total / 1440), hours: Math.floor(total / 60) % 24, minutes: total % 60 };
+  const setPart = (key: keyof typeof parts, v: string) => {
+    const next = { ...parts, [key]: Math.max(0, Math.floor(Number(v) || 0)) };
+    onChange({ remainingMs: ((next.days * 24 + next.hours) * 60 + next.minutes) * 60_000 }, true);
+  };
+  return (
+    <div className="space-y-1 pl-7 pt-1">
+      {row("Label", text(scene.params.label, "Sale ends in", (label)=>onChange({ label }, true)))}
+      <div className="flex items-center gap-2">
+        <span className="w-20 text-white/60">Ends in</span>
+        {(["days", "hours", "minutes"] as const).map(key => (
+          <span key={key} className="flex items-center gap-1">
+            <input className="w-12 rounded bg-white/5 px-1 py-0.5 text-right" type="number" min={0} value={parts[key]} onChange={(e)=>setPart(key, e.target.value)} />
+            <span className="text-white/40">{key[0]}</span>
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { EASINGS, type EasingName } from "@/lib/easing";
+import {
+  TEXT_EFFECTS,
+  type SlideEdge,
+  type TextAnimation,
+  type TextAnimations,
+  type TextEffect,
+} from "@/lib/textanim";
+import { TEXT_ROLES, type TextRole } from "@/lib/themes";
+
+interface Props {
+  animations: TextAnimations;
+  onChange: (animations: TextAnimations) => void;
+}
+
+const ROLE_LABELS: Record<TextRole, string> = {
+  title: "Title",
+  subtitle: "Subtitle",
+  caption: "Captions",
+  price: "Price",
+  cta: "CTA",
+};
+
+const EDGES: SlideEdge[] = ["left", "right", "top", "bottom"];
+
+export function TextAnimationPanel({ animations, onChange }: Props) {
+  const set = (role: TextRole, patch: Partial<TextAnimation>) =>
+    onChange({ ...animations, [role]: { ...animations[role], ...patch } });
+
+  const seconds = (role: TextRole, k: "enterMs" | "exitMs" | "delayMs") => (
+    <input className="w-14 rounded bg-white/5 px-1 py-0.5" type="number" min={0} step={0.1} value={animations[role][k] / 1000}
+      onChange={(e)=>set(role, { [k]: Math.max(0, Number(e.target.value) * 1000 || 0) })} />
+  );
+
+  const effectSelect = (role: TextRole, k: "enter" | "exit") => (
+    <select className="rounded bg-white/5 px-1 py-0.5" value={animations[role][k]} onChange={(e)=>set(role, { [k]: e.target.value as TextEffect })}>
+      {TEXT_EFFECTS.map(e => <option key={e.effect} value={e.effect} className="bg-neutral-900">{e.label}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="rounded-lg border border-white/10 bg-white/5 p-3 text-xs">
+      <table className="w-full text-left">
+        <thead className="text-white/50">
+          <tr><th>Text</th><th>Enter</th><th>Easing</th><th>Delay</th><th>In (s)</th><th>Exit</th><th>Out (s)</th></tr>
+        </thead>
+        <tbody>
+          {TEXT_ROLES.map(role => {
+            const a = animations[role];
+            return (
+              <tr key={role}>
+                <td className="pr-2">{ROLE_LABELS[role]}</td>
+                <td>
+                  <div className="flex gap-1">
+                    {effectSelect(role, "enter")}
+                    {(a.enter === "slide" || a.exit === "slide") && (
+                      <select className="rounded bg-white/5 px-1 py-0.5" value={a.edge} onChange={(e)=>set(role, { edge: e.target.value as SlideEdge })}>
+                        {EDGES.map(d => <option key={d} value={d} className="bg-neutral-900">{d}</option>)}
+                      </select>
+                    )}
+                  </div>
+                </td>
+                <td>
+                  <select className="rounded bg-white/5 px-1 py-0.5" value={a.easing} onChange={(e)=>set(role, { easing: e.target.value as EasingName })}>
+                    {(Object.keys(EASINGS) as EasingName[]).map(k => <option key={k} value={k} className="bg-neutral-900">{k}</option>)}
+                  </select>
+                </td>
+                <td>{seconds(role, "delayMs")}</td>
+                <td>{seconds(role, "enterMs")}</td>
+                <td>{effectSelect(role, "exit")}</td>
+                <td>{seconds(role, "exitMs")}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { downloadBlob } from "@/lib/download";
+import {
+  BUILT_IN_THEMES,
+  TEXT_ROLES,
+  duplicateTheme,
+  findTheme,
+  parseTheme,
+  serializeTheme,
+  type TextRole,
+  type TextStyle,
+  type Theme,
+} from "@/lib/themes";
+
+interface Props {
+  activeId: string;
+  customThemes: Theme[];
+  onSelect: (id: string) => void;
+  onChange: (customThemes: Theme[]) => void;
+}
+
+const ROLE_LABELS: Record<TextRole, string> = {
+  title: "Title",
+  subtitle: "Subtitle",
+  caption: "Caption",
+  price: "Price",
+  cta: "CTA",
+};
+
+const COLOR_LABELS: Record<keyof Theme["colors"], string> = {
+  background: "Background",
+  introOverlay: "Intro overlay",
+  captionShade: "Caption shade",
+  priceFrom: "Price from",
+  priceTo: "Price to",
+  cta: "CTA pill",
+};
+
+export function ThemeEditor({ activeId, customThemes, onSelect, onChange }: Props) {
+  const fileRef = useRef<HTMLInputElement | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const theme = findTheme(activeId, customThemes);
+  const editable = !theme.builtIn;
+
+  function update(next: Theme) {
+    onChange(customThemes.map(t => t.id === next.id ? next : t));
+  }
+
+  function add(next: Theme) {
+    onChange([...customThemes, next]);
+    onSelect(next.id);
+    setIsEditing(true);
+  }
+
+  function remove() {
+    onChange(customThemes.filter(t => t.id !== theme.id));
+    onSelect(BUILT_IN_THEMES[0].id);
+    setIsEditing(false);
+  }
+
+  function exportJson() {
+    downloadBlob(new Blob([serializeTheme(theme)], { type: "application/json" }), `${theme.name.replace(/[^\w-]+/g, "-").toLowerCase() || "theme"}.json`);
+  }
+
+  async function importJson(file: File) {
+    setError(null);
+    try {
+      add(parseTheme(await file.text()));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  const setText = (role: TextRole, patch: Partial<TextStyle>) =>
+    update({ ...theme, text: { ...theme.text, [role]: { ...theme.text[role], ...patch } } });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <select className="input" value={theme.id} onChange={(e)=>onSelect(e.target.value)}>
+          <optgroup label="Built-in">
+            {BUILT_IN_THEMES.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+          </optgroup>
+          {customThemes.length > 0 && (
+            <optgroup label="Custom">
+              {customThemes.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+            </optgroup>
+          )}
+        </select>
+      </div>
+      <div className="flex flex-wrap gap-2 text-xs">
+        <button className="rounded border border-white/10 px-2 py-1 hover:bg-white/10" onClick={()=>add(duplicateTheme(theme))}>Duplicate</button>
+        {editable && (
+          <>
+            <button className="rounded border border-white/10 px-2 py-1 hover:bg-white/10" onClick={()=>setIsEditing(!isEditing)}>{isEditing ? "Done" : "Edit"}</button>
+            <button className="rounded border border-white/10 px-2 py-1 hover:bg-white/10 hover:text-red-400" onClick={remove}>Delete</button>
+          </>
+        )}
+        <button className="rounded border border-white/10 px-2 py-1 hover:bg-white/10" onClick={exportJson}>Export JSON</button>
+        <button className="rounded border border-white/10 px-2 py-1 hover:bg-white/10" onClick={()=>fileRef.current?.click()}>Import JSON</button>
+        <input ref={fileRef} className="hidden" type="file" accept="application/json,.json" onChange={(e)=>{
+          const f = e.target.files?.[0];
+          if (f) importJson(f);
+          e.target.value = "";
+        }} />
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {editable && isEditing && (
+        <div className="space-y-3 rounded-lg border border-white/10 bg-white/5 p-3 text-xs">
+          <label className="block">
+            <span className="block mb-1 text-white/70">Name</span>
+            <input className="input" value={theme.name} onChange={(e)=>update({ ...theme, name: e.target.value })} />
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            {(["heading", "body"] as const).map(k => (
+              <label key={k} className="block">
+                <span className="block mb-1 text-white/70">{k === "heading" ? "Heading font" : "Body font"}</span>
+                <input className="input" value={theme.fonts[k]} onChange={(e)=>update({ ...theme, fonts: { ...theme.fonts, [k]: e.target.value } })} />
+              </label>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            {(Object.keys(COLOR_LABELS) as (keyof Theme["colors"])[]).map(k => (
+              <label key={k} className="block">
+                <span className="block mb-1 text-white/70">{COLOR_LABELS[k]}</span>
+                <input className="input" value={theme.colors[k]} onChange={(e)=>update({ ...theme, colors: { ...theme.colors, [k]: e.target.value } })} />
+              </label>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <label className="block">
+              <span className="block mb-1 text-white/70">Colour grade (CSS filter)</span>
+              <input className="input" value={theme.effects.grade} onChange={(e)=>update({ ...theme, effects: { ...theme.effects, grade: e.target.value } })} />
+            </label>
+            <div className="flex flex-wrap items-center gap-4">
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={theme.effects.vignette} onChange={(e)=>update({ ...theme, effects: { ...theme.effects, vignette: e.target.checked } })} />
+                Vignette
+              </label>
+              {theme.effects.vignette && (
+                <input type="range" min={0} max={1} step={0.05} value={theme.effects.vignetteStrength}
+                  onChange={(e)=>update({ ...theme, effects: { ...theme.effects, vignetteStrength: Number(e.target.value) } })} />
+              )}
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={theme.effects.letterbox} onChange={(e)=>update({ ...theme, effects: { ...theme.effects, letterbox: e.target.checked } })} />
+                Letterbox
+              </label>
+              {theme.effects.letterbox && (
+                <input className="w-16 rounded bg-white/5 px-1 py-0.5" type="number" min={1} step={0.05} value={theme.effects.letterboxAspect}
+                  onChange={(e)=>update({ ...theme, effects: { ...theme.effects, letterboxAspect: Math.max(1, Number(e.target.value) || 1) } })} />
+              )}
+            </div>
+          </div>
+
+          <table className="w-full text-left">
+            <thead className="text-white/50">
+              <tr><th>Text</th><th>Font</th><th>Weight</th><th>Size</th><th>X</th><th>Y</th><th>Align</th><th>Colour</th><th>Lines</th><th>Min</th><th>Leading</th><th>Wrap</th></tr>
+            </thead>
+            <tbody>
+              {TEXT_ROLES.map(role => {
+                const s = theme.text[role];
+                const num = (k: "weight" | "size" | "x" | "y" | "maxLines" | "minSize" | "lineHeight", step: number) => (
+                  <input className="w-14 rounded bg-white/5 px-1 py-0.5" type="number" step={step} value={s[k]}
+                    onChange={(e)=>{ const v = Number(e.target.value); if (Number.isFinite(v)) setText(role, { [k]: v }); }} />
+                );
+                return (
+                  <tr key={role}>
+                    <td className="pr-2">{ROLE_LABELS[role]}</td>
+                    <td>
+                      <select className="rounded bg-white/5 px-1 py-0.5" value={s.font} onChange={(e)=>setText(role, { font: e.target.value as TextStyle["font"] })}>
+                        <option value="heading" className="bg-neutral-900">Heading</option>
+                        <option value="body" className="bg-neutral-900">Body</option>
+                      </select>
+                    </td>
+                    <td>{num("weight", 100)}</td>
+                    <td>{num("size", 0.005)}</td>
+                    <td>{num("x", 0.01)}</td>
+                    <td>{num("y", 0.01)}</td>
+                    <td>
+                      <select className="rounded bg-white/5 px-1 py-0.5" value={s.align} onChange={(e)=>setText(role, { align: e.target.value as TextStyle["align"] })}>
+                        <option value="left" className="bg-neutral-900">Left</option>
+                        <option value="center" className="bg-neutral-900">Center</option>
+                        <option value="right" className="bg-neutral-900">Right</option>
+                      </select>
+                    </td>
+                    <td><input type="color" className="h-5 w-8 bg-transparent" value={s.color} onChange={(e)=>setText(role, { color: e.target.value })} /></td>
+                    <td>{num("maxLines", 1)}</td>
+                    <td>{num("minSize", 0.005)}</td>
+                    <td>{num("lineHeight", 0.05)}</td>
+                    <td>
+                      <select className="rounded bg-white/5 px-1 py-0.5" value={s.grow} onChange={(e)=>setText(role, { grow: e.target.value as TextStyle["grow"] })}>
+                        <option value="up" className="bg-neutral-900">Up</option>
+                        <option value="down" className="bg-neutral-900">Down</option>
+                      </select>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
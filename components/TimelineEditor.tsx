@@ -0,0 +1,168 @@
+"use client";
+
+import { useState } from "react";
+import {
+  SCENE_KINDS,
+  createScene,
+  duplicateScene,
+  insertScene,
+  moveScene,
+  removeScene,
+  updateScene,
+  type SceneKind,
+  type Timeline,
+} from "@/lib/timeline";
+import { isVideoFile } from "@/lib/media";
+import { GRID_SLOTS, SceneSettings, isConfigurable } from "@/components/SceneSettings";
+import type { Asset } from "@/lib/assets";
+import { DEFAULT_TRANSITION, TRANSITION_DIRECTIONS, TRANSITION_KINDS, type Transition, type TransitionDirection, type TransitionKind } from "@/lib/transitions";
+
+interface Props {
+  timeline: Timeline;
+  // Asset tray, for picking the image or clip of an image scene
+  assets: Asset[];
+  // merge is set for continuous edits (typing, dragging), which fold into one
+  // undo step; structural edits each get their own
+  onChange: (timeline: Timeline, merge?: boolean) => void;
+}
+
+const LABELS: Record<SceneKind, string> = {
+  intro: "Title card",
+  image: "Image",
+  grid: "Feature grid",
+  compare: "Before / after",
+  review: "Review",
+  specs: "Spec table",
+  countdown: "Countdown",
+  price: "Price card",
+  outro: "Outro",
+};
+
+export function TimelineEditor({ timeline, assets, onChange }: Props) {
+  const [addKind, setAddKind] = useState<SceneKind>("intro");
+  const [open, setOpen] = useState<string | null>(null);
+  const scenes = timeline.scenes;
+  const fallback = timeline.defaultTransition ?? { ...DEFAULT_TRANSITION, kind: "cut" as const };
+
+  const setDefault = (patch: Partial<Transition>, merge = false) =>
+    onChange({ ...timeline, defaultTransition: { ...fallback, ...patch } }, merge);
+
+  // New scenes start on the first tray assets
+  const tray = (i: number) => assets[i % Math.max(1, assets.length)]?.id ?? "";
+  function addScene() {
+    const scene = addKind === "image" ? createScene("image", { assetId: tray(0) })
+      : addKind === "grid" ? createScene("grid", { assetIds: Array.from({ length: GRID_SLOTS["2x2"] }, (_, i) => tray(i)) })
+      : addKind === "compare" ? createScene("compare", { beforeId: tray(0), afterId: tray(1) })
+      : createScene(addKind);
+    onChange(insertScene(timeline, scenes.length, scene));
+    if (isConfigurable(scene)) setOpen(scene.id);
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <span className="text-white/70">Default transition</span>
+        <select className="rounded bg-white/5 px-1 py-0.5" value={fallback.kind} onChange={(e)=>setDefault({ kind: e.target.value as TransitionKind })}>
+          {TRANSITION_KINDS.map(t => <option key={t.kind} value={t.kind} className="bg-neutral-900">{t.label}</option>)}
+        </select>
+        {fallback.kind !== "cut" && (
+          <>
+            <input
+              className="w-14 rounded bg-white/5 px-1 py-0.5 text-right"
+              type="number"
+              min={0.1}
+              step={0.1}
+              value={fallback.durationMs / 1000}
+              onChange={(e)=>{
+                const s = Number(e.target.value);
+                if (Number.isFinite(s) && s > 0) setDefault({ durationMs: Math.round(s * 1000) }, true);
+              }}
+            />
+            <span className="text-white/40">s</span>
+          </>
+        )}
+        {(fallback.kind === "slide" || fallback.kind === "wipe") && (
+          <select className="rounded bg-white/5 px-1 py-0.5" value={fallback.direction ?? "left"} onChange={(e)=>setDefault({ direction: e.target.value as TransitionDirection })}>
+            {TRANSITION_DIRECTIONS.map(d => <option key={d} value={d} className="bg-neutral-900">{d}</option>)}
+          </select>
+        )}
+        {fallback.kind === "dip" && (
+          <input type="color" className="h-5 w-8 bg-transparent" value={fallback.color ?? "#000000"} onChange={(e)=>setDefault({ color: e.target.value }, true)} />
+        )}
+      </div>
+      <ol className="space-y-1">
+        {scenes.map((scene, i) => {
+          const asset = scene.kind === "image" ? assets.find(a => a.id === scene.params.assetId) : undefined;
+          return (
+            <li key={scene.id} className="rounded-md border border-white/10 bg-white/5 px-2 py-1 text-xs">
+              <div className="flex items-center gap-2">
+                <span className="w-5 text-white/40">{i + 1}</span>
+                {i > 0 && (
+                  <select
+                    className="w-20 rounded bg-white/5 px-1 py-0.5 text-white/70"
+                    title="Transition into this scene"
+                    value={scene.transition?.kind ?? ""}
+                    onChange={(e)=>onChange(updateScene(timeline, scene.id, {
+                      transition: e.target.value ? { ...fallback, kind: e.target.value as TransitionKind } : null,
+                    }))}
+                  >
+                    <option value="" className="bg-neutral-900">Default</option>
+                    {TRANSITION_KINDS.map(t => <option key={t.kind} value={t.kind} className="bg-neutral-900">{t.label}</option>)}
+                  </select>
+                )}
+                <span className="flex-1 truncate">
+                  {isConfigurable(scene) ? (
+                    <button className="hover:text-white" onClick={()=>setOpen(open === scene.id ? null : scene.id)}>
+                      {open === scene.id ? "▾" : "▸"} {LABELS[scene.kind]}
+                    </button>
+                  ) : isVideoFile(asset?.file) ? "Clip" : LABELS[scene.kind]}
+                  {scene.kind === "image" && (
+                    <select
+                      className="ml-2 max-w-32 bg-transparent text-white/70"
+                      value={scene.params.assetId}
+                      onChange={(e)=>onChange(updateScene(timeline, scene.id, { params: { assetId: e.target.value } }))}
+                    >
+                      {!asset && <option value={scene.params.assetId} className="bg-neutral-900">—</option>}
+                      {assets.map((a, n) => (
+                        <option key={a.id} value={a.id} className="bg-neutral-900">#{n + 1} {a.file.name}</option>
+                      ))}
+                    </select>
+                  )}
+                </span>
+                <input
+                  className="w-14 rounded bg-white/5 px-1 py-0.5 text-right disabled:opacity-50"
+                  type="number"
+                  min={0.1}
+                  step={0.1}
+                  disabled={!!asset?.durationMs}
+                  title={asset?.durationMs ? "Set by the asset" : undefined}
+                  value={(asset?.durationMs ?? scene.durationMs) / 1000}
+                  onChange={(e)=>{
+                    const s = Number(e.target.value);
+                    if (Number.isFinite(s) && s > 0) onChange(updateScene(timeline, scene.id, { durationMs: Math.round(s * 1000) }), true);
+                  }}
+                />
+                <span className="text-white/40">s</span>
+                <button className="px-1 text-white/60 hover:text-white disabled:opacity-30" disabled={i === 0} onClick={()=>onChange(moveScene(timeline, scene.id, i - 1))} title="Move up">↑</button>
+                <button className="px-1 text-white/60 hover:text-white disabled:opacity-30" disabled={i === scenes.length - 1} onClick={()=>onChange(moveScene(timeline, scene.id, i + 1))} title="Move down">↓</button>
+                <button className="px-1 text-white/60 hover:text-white" onClick={()=>onChange(duplicateScene(timeline, scene.id))} title="Duplicate">⧉</button>
+                <button className="px-1 text-white/60 hover:text-red-400" onClick={()=>onChange(removeScene(timeline, scene.id))} title="Remove">✕</button>
+              </div>
+              {open === scene.id && isConfigurable(scene) && (
+                <SceneSettings scene={scene} assets={assets} onChange={(params, merge)=>onChange(updateScene(timeline, scene.id, { params }), merge)} />
+              )}
+            </li>
+          );
+        })}
+      </ol>
+      <div className="flex gap-2">
+        <select className="input" value={addKind} onChange={(e)=>setAddKind(e.target.value as SceneKind)}>
+          {SCENE_KINDS.map(k => <option key={k} value={k}>{LABELS[k]}</option>)}
+        </select>
+        <button className="btn whitespace-nowrap" onClick={addScene}>
+          Add scene
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+"use client";
+
+import { useRef, type PointerEvent } from "react";
+import { PLAYBACK_RATES, formatTime, normalizeLoop, type LoopRegion, type SceneMarker } from "@/lib/transport";
+
+interface Props {
+  timeMs: number;
+  durationMs: number;
+  fps: number;
+  isPlaying: boolean;
+  rate: number;
+  loop: LoopRegion | null;
+  markers: SceneMarker[];
+  onSeek: (ms: number) => void;
+  onPlayPause: () => void;
+  onStep: (frames: number) => void;
+  onRate: (rate: number) => void;
+  onLoop: (loop: LoopRegion | null) => void;
+}
+
+const BUTTON = "rounded px-1.5 py-0.5 text-white/70 hover:bg-white/10 hover:text-white";
+
+export function TransportBar({ timeMs, durationMs, fps, isPlaying, rate, loop, markers, onSeek, onPlayPause, onStep, onRate, onLoop }: Props) {
+  const trackRef = useRef<HTMLDivElement | null>(null);
+  // Shift-drag selects a loop region from this time
+  const dragRef = useRef<{ loopFrom: number | null } | null>(null);
+  const pct = (ms: number) => `${(durationMs > 0 ? ms / durationMs : 0) * 100}%`;
+
+  function timeAt(e: PointerEvent) {
+    const r = trackRef.current!.getBoundingClientRect();
+    return Math.max(0, Math.min(1, (e.clientX - r.left) / r.width)) * durationMs;
+  }
+
+  function onPointerDown(e: PointerEvent<HTMLDivElement>) {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const t = timeAt(e);
+    dragRef.current = { loopFrom: e.shiftKey ? t : null };
+    if (!e.shiftKey) onSeek(t);
+  }
+
+  function onPointerMove(e: PointerEvent<HTMLDivElement>) {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const t = timeAt(e);
+    if (drag.loopFrom != null) onLoop(normalizeLoop(drag.loopFrom, t, durationMs));
+    else onSeek(t);
+  }
+
+  return (
+    <div
+      className="mt-2 space-y-1 text-xs outline-none"
+      tabIndex={0}
+      onKeyDown={(e)=>{
+        if (e.target !== e.currentTarget) return;
+        if (e.key === " ") { e.preventDefault(); onPlayPause(); }
+        else if (e.key === "ArrowLeft") { e.preventDefault(); onStep(e.shiftKey ? -fps : -1); }
+        else if (e.key === "ArrowRight") { e.preventDefault(); onStep(e.shiftKey ? fps : 1); }
+      }}
+    >
+      <div
+        ref={trackRef}
+        className="relative h-6 cursor-pointer touch-none rounded bg-white/5"
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={()=>{ dragRef.current = null; }}
+        title="Click or drag to seek; shift-drag to set a loop region"
+      >
+        {loop && (
+          <div className="absolute inset-y-0 bg-brand-500/25" style={{ left: pct(loop.startMs), width: pct(loop.endMs - loop.startMs) }} />
+        )}
+        {markers.map(m => (
+          <div key={m.index} className="absolute inset-y-0 w-px bg-white/25" style={{ left: pct(m.ms) }} title={`${m.index + 1} · ${m.kind}`}>
+            <span className="absolute left-0.5 top-0 text-[9px] text-white/40">{m.index + 1}</span>
+          </div>
+        ))}
+        <div className="pointer-events-none absolute inset-y-0 w-0.5 bg-brand-500" style={{ left: pct(timeMs) }} />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1">
+        <button className={BUTTON} title="Previous frame (←)" onClick={()=>onStep(-1)}>⏮</button>
+        <button className={`${BUTTON} w-8`} title="Play / pause (space)" onClick={onPlayPause}>{isPlaying ? "⏸" : "▶"}</button>
+        <button className={BUTTON} title="Next frame (→)" onClick={()=>onStep(1)}>⏭</button>
+        <span className="w-28 tabular-nums text-white/60">{formatTime(timeMs, fps)} / {formatTime(durationMs, fps)}</span>
+        <select className="rounded bg-white/5 px-1 py-0.5" value={rate} onChange={(e)=>onRate(Number(e.target.value))} title="Playback speed">
+          {PLAYBACK_RATES.map(r => <option key={r} value={r} className="bg-neutral-900">{r}×</option>)}
+        </select>
+        <span className="ml-auto flex items-center gap-1">
+          <button className={BUTTON} title="Loop from here" onClick={()=>onLoop(normalizeLoop(timeMs, loop?.endMs ?? durationMs, durationMs))}>[</button>
+          <button className={BUTTON} title="Loop up to here" onClick={()=>onLoop(normalizeLoop(loop?.startMs ?? 0, timeMs, durationMs))}>]</button>
+          {loop && <button className={BUTTON} title="Clear loop" onClick={()=>onLoop(null)}>⟲ ✕</button>}
+        </span>
+      </div>
+    </div>
+  );
+}
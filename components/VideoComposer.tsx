@@ -1,289 +1,454 @@
 "use client";
 
-import React, { forwardRef, useEffect, useImperativeHandle, useMemo, useRef, useState } from "react";
-import { fitCover, kenBurnsPath, lerp } from "@/lib/kenburns";
+import React, { forwardRef, useCallback, useEffect, useImperativeHandle, useMemo, useRef, useState } from "react";
+import type { FocalPoint } from "@/lib/kenburns";
+import { findFocalPoint } from "@/lib/saliency";
+import { frameAt, scheduleTimeline, timelineDuration, type Timeline } from "@/lib/timeline";
+import { previewSize, renderOffline, supportsOfflineAudio, supportsOfflineRender, type AspectRatio, type ExportFormat, type ExportSettings } from "@/lib/render";
+import { decodeAudioFile, renderAudioMix, type AudioMix, type ClipAudio } from "@/lib/audio";
+import { DEFAULT_CLIP, clipTimeMs, loadMedia, mediaStill, releaseMedia, seekVideo, type SceneMedia } from "@/lib/media";
+import type { Asset } from "@/lib/assets";
+import { createRenderer } from "@/lib/renderer";
+import { createRenderCache } from "@/lib/rendercache";
+import { createFrameMeter, createPreviewWorker, supportsWorkerPreview, workerMedia, type ClipFrame, type FrameStats, type PreviewWorker } from "@/lib/preview";
+import { advance, clampTime, sceneMarkers, stepFrames, type LoopRegion } from "@/lib/transport";
+import { TransportBar } from "@/components/TransportBar";
+import type { Theme } from "@/lib/themes";
+import type { BrandKit } from "@/lib/brand";
+import type { TextAnimations } from "@/lib/textanim";
+import { mergeCues, scriptCues, type VoiceOver } from "@/lib/subtitles";
 
 interface Props {
-  assets: File[];
+  assets: Asset[];
   audioFile: File | null;
   productName: string;
   tagline: string;
   features: string[];
   cta: string;
   price: string;
-  ratio: "16:9" | "9:16" | "1:1";
-  style: "cinematic" | "modern" | "minimal";
+  // Struck-through regular price for sales
+  compareAtPrice: string | null;
+  locale: string;
+  ratio: AspectRatio;
+  theme: Theme;
+  brand: BrandKit;
+  timeline: Timeline;
+  audioMix: AudioMix;
+  animations: TextAnimations;
+  voiceOver: VoiceOver;
+  // Frame rate for frame stepping and the time readout
+  fps: number;
 }
 
 export const VideoComposer = forwardRef(function VideoComposer(props: Props, ref) {
-  const { assets, audioFile, productName, tagline, features, cta, price, ratio, style } = props;
+  const { assets, audioFile, productName, tagline, features, cta, price, compareAtPrice, locale, ratio, theme, brand, timeline, audioMix, animations, voiceOver, fps } = props;
+  // The preview canvas is created here rather than by React: once it is
+  // handed to the worker its size can only change there
+  const surfaceRef = useRef<HTMLDivElement | null>(null);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
-  const [bitmaps, setBitmaps] = useState<ImageBitmap[]>([]);
+  const previewRef = useRef<PreviewWorker | null>(null);
+  // Media last posted to the worker, by asset id
+  const sentMedia = useRef(new Map<string, SceneMedia | null>());
+  // By asset id; null where a file failed to load
+  const [media, setMedia] = useState<Map<string, SceneMedia | null>>(()=>new Map());
+  // Detected subject per asset, for auto framing
+  const [focalPoints, setFocalPoints] = useState<Map<string, FocalPoint>>(()=>new Map());
+  const mediaRef = useRef(media);
+  mediaRef.current = media;
+  // Loading keys on the asset ids alone, so edits to captions or framing
+  // don't reload anything
+  const assetsRef = useRef(assets);
+  assetsRef.current = assets;
+  const [logo, setLogo] = useState<ImageBitmap | null>(null);
 
   // Layout target size
-  const { width, height } = useMemo(()=>{
-    if (ratio === "16:9") return { width: 1280, height: 720 };
-    if (ratio === "9:16") return { width: 1080, height: 1920 };
-    return { width: 1080, height: 1080 };
-  }, [ratio]);
-
-  // Scene timings (ms)
-  const introMs = 1500;
-  const perImageMs = 3200;
-  const priceMs = 1800;
-  const outroMs = 800;
-
-  const totalDurationMs = useMemo(()=>{
-    const n = Math.max(bitmaps.length, assets.length);
-    if (n === 0) return introMs; 
-    return introMs + n * perImageMs + priceMs + outroMs;
-  }, [bitmaps.length]);
-
-  // Load image bitmaps from files
+  const { width, height } = useMemo(()=>previewSize(ratio), [ratio]);
+
+  // Sized by the effect below, or by the worker on its first input
+  useEffect(()=>{
+    const canvas = document.createElement("canvas");
+    canvas.className = "w-full h-full object-contain";
+    surfaceRef.current!.appendChild(canvas);
+    canvasRef.current = canvas;
+    const preview = supportsWorkerPreview() ? createPreviewWorker(canvas) : null;
+    previewRef.current = preview;
+    return ()=>{
+      preview?.dispose();
+      previewRef.current = null;
+      sentMedia.current = new Map();
+      canvas.remove();
+      canvasRef.current = null;
+    };
+  }, []);
+
+  useEffect(()=>{
+    const canvas = canvasRef.current;
+    if (!canvas || previewRef.current) return;
+    canvas.width = width;
+    canvas.height = height;
+  }, [width, height]);
+
+  // Scene schedule (ms)
+  const schedule = useMemo(()=>scheduleTimeline(timeline), [timeline]);
+  const totalDurationMs = useMemo(()=>timelineDuration(timeline), [timeline]);
+
+  // Tray position of each asset, for caption fallback and the canned framing path
+  const assetIndex = useMemo(()=>new Map(assets.map((a, i)=>[a.id, i])), [assets]);
+  const assetIds = assets.map(a => a.id).join("|");
+  // Set while an export drives the video elements, so the preview leaves them alone
+  const exportingRef = useRef(false);
+
+  // Load images and clips of new assets; reordering keeps what is loaded
   useEffect(()=>{
     let cancelled = false;
     (async ()=>{
-      const imgs: ImageBitmap[] = [];
-      for (const f of assets) {
-        if (!f.type.startsWith("image/")) continue;
-        const url = URL.createObjectURL(f);
-        try {
-          const bmp = await createImageBitmap(await (await fetch(url)).blob());
-          imgs.push(bmp);
-        } catch {}
+      const prev = mediaRef.current;
+      const next = new Map<string, SceneMedia | null>();
+      const fresh = new Map<string, SceneMedia | null>();
+      for (const a of assetsRef.current) {
+        if (prev.has(a.id)) next.set(a.id, prev.get(a.id)!);
+        else fresh.set(a.id, await loadMedia(a.file));
+        if (cancelled) break;
       }
-      if (!cancelled) setBitmaps(imgs);
+      const release = (list: Iterable<SceneMedia | null>) => { for (const m of list) if (m) releaseMedia(m); };
+      if (cancelled) { release(fresh.values()); return; }
+      for (const [id, m] of fresh) next.set(id, m);
+      release([...prev].filter(([id])=>!next.has(id)).map(([, m])=>m));
+      setMedia(next);
+      setFocalPoints((fp)=>{
+        const out = new Map([...fp].filter(([id])=>next.has(id)));
+        for (const [id, m] of fresh) out.set(id, m ? findFocalPoint(mediaStill(m)) : { x: 0.5, y: 0.5 });
+        return out;
+      });
     })();
     return ()=>{ cancelled = true; };
-  }, [assets]);
-
-  // Preview loop
-  const previewStartRef = useRef<number | null>(null);
-  const rafRef = useRef<number | null>(null);
-
-  function drawFrame(ctx: CanvasRenderingContext2D, tMs: number) {
-    const W = ctx.canvas.width, H = ctx.canvas.height;
-    ctx.clearRect(0,0,W,H);
-
-    // Background
-    ctx.fillStyle = "black";
-    ctx.fillRect(0,0,W,H);
-
-    const scenes: { kind: "intro" | "image" | "price" | "outro"; idx?: number; start: number; end: number }[] = [];
-    let cursor = 0;
-    scenes.push({ kind: "intro", start: cursor, end: cursor + introMs });
-    cursor += introMs;
-    for (let i=0;i<bitmaps.length;i++) {
-      scenes.push({ kind: "image", idx: i, start: cursor, end: cursor + perImageMs });
-      cursor += perImageMs;
-    }
-    scenes.push({ kind: "price", start: cursor, end: cursor + priceMs });
-    cursor += priceMs;
-    scenes.push({ kind: "outro", start: cursor, end: cursor + outroMs });
-
-    const time = Math.min(tMs, totalDurationMs - 1);
-    const scene = scenes.find(s => time >= s.start && time < s.end)!;
-    const local = time - scene.start;
-    const prog = local / (scene.end - scene.start);
-
-    // global color grade
-    (ctx as any).filter = style === "minimal" ? "none" : "contrast(1.12) saturate(0.95) brightness(1.05)";
-
-    if (scene.kind === "intro") {
-      drawIntro(ctx, bitmaps[0], productName, tagline, prog, style);
-    } else if (scene.kind === "image") {
-      drawImageScene(ctx, bitmaps[scene.idx!], features[scene.idx!], scene.idx!, prog, style);
-    } else if (scene.kind === "price") {
-      drawPrice(ctx, price, cta, prog, style);
-    } else if (scene.kind === "outro") {
-      // fade to black
-      ctx.fillStyle = "black";
-      ctx.globalAlpha = prog;
-      ctx.fillRect(0,0,W,H);
-      ctx.globalAlpha = 1;
-    }
-
-    // Vignette
-    if (style !== "minimal") drawVignette(ctx);
-
-    // Optional anamorphic bars for cinematic
-    if (style === "cinematic") drawLetterbox(ctx);
+  }, [assetIds]);
 
-    // Reset filter
-    (ctx as any).filter = "none";
+  // Callers waiting for a given asset list to be loaded, e.g. bulk rendering
+  // right after swapping in a feed row
+  const readyWaiters = useRef<{ ids: string; resolve: () => void }[]>([]);
+  useEffect(()=>{
+    if (!assets.every(a => media.has(a.id))) return;
+    readyWaiters.current = readyWaiters.current.filter((w)=>{
+      if (w.ids !== assetIds) return true;
+      w.resolve();
+      return false;
+    });
+  }, [assets, media, assetIds]);
+
+  // Brand logo
+  useEffect(()=>{
+    let cancelled = false;
+    setLogo(null);
+    if (!brand.logo) return;
+    createImageBitmap(brand.logo).then((bmp)=>{ if (!cancelled) setLogo(bmp); }, ()=>{});
+    return ()=>{ cancelled = true; };
+  }, [brand.logo]);
+
+  // Preview transport; timeRef leads timeMs while playing
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [timeMs, setTimeMs] = useState(0);
+  const [rate, setRate] = useState(1);
+  const [loop, setLoop] = useState<LoopRegion | null>(null);
+  const timeRef = useRef(0);
+  const markers = useMemo(()=>sceneMarkers(schedule), [schedule]);
+
+  function seek(ms: number) {
+    const t = clampTime(ms, totalDurationMs);
+    timeRef.current = t;
+    setTimeMs(t);
   }
+  const voiceOverCues = useMemo(()=>scriptCues(voiceOver.script, totalDurationMs), [voiceOver.script, totalDurationMs]);
+  // Frame input without media, as posted to the preview worker
+  const frameInput = useMemo(()=>({
+    timeline,
+    assets,
+    focalPoints,
+    productName,
+    tagline,
+    features,
+    price,
+    compareAtPrice,
+    cta,
+    locale,
+    theme,
+    brand,
+    animations,
+    burnedCaptions: voiceOver.burnIn ? voiceOverCues : undefined,
+  }), [timeline, assets, focalPoints, productName, tagline, features, price, compareAtPrice, cta, locale, theme, brand, animations, voiceOver.burnIn, voiceOverCues]);
+  // Graded stills and static layers, kept across edits
+  const [cache] = useState(()=>createRenderCache());
+  const renderer = useMemo(()=>createRenderer({
+    ...frameInput,
+    media,
+    logo: logo && { source: logo, width: logo.width, height: logo.height },
+  }, { cache }), [frameInput, media, logo, cache]);
+  const drawFrame = renderer.drawFrame;
+
+  // Worker preview: mirror the input and media into the worker. Media and
+  // fonts arrive asynchronously, so each bumps workerVersion to redraw.
+  const [workerVersion, setWorkerVersion] = useState(0);
+  useEffect(()=>{
+    previewRef.current?.setInput(frameInput, width, height);
+  }, [frameInput, width, height]);
+  useEffect(()=>{
+    const preview = previewRef.current;
+    if (!preview) return;
+    let cancelled = false;
+    (async ()=>{
+      const sent = sentMedia.current;
+      const gone = [...sent.keys()].filter(id => !media.has(id));
+      preview.release(gone);
+      for (const id of gone) sent.delete(id);
+      for (const [id, m] of media) {
+        if (sent.has(id) && sent.get(id) === m) continue;
+        const copy = m && await workerMedia(m);
+        if (cancelled) { if (copy) (copy.source as ImageBitmap).close(); return; }
+        preview.setMedia(id, copy);
+        sent.set(id, m);
+      }
+      setWorkerVersion((v)=>v + 1);
+    })();
+    return ()=>{ cancelled = true; };
+  }, [media]);
+  useEffect(()=>{
+    const preview = previewRef.current;
+    if (!preview) return;
+    let cancelled = false;
+    (async ()=>{
+      const copy = logo && await createImageBitmap(logo);
+      if (cancelled) { copy?.close(); return; }
+      preview.setLogo(copy && { source: copy, width: copy.width, height: copy.height });
+      setWorkerVersion((v)=>v + 1);
+    })();
+    return ()=>{ cancelled = true; };
+  }, [logo]);
+  useEffect(()=>{
+    let cancelled = false;
+    previewRef.current?.setFonts(brand.fonts).then(()=>{ if (!cancelled) setWorkerVersion((v)=>v + 1); }, ()=>{});
+    return ()=>{ cancelled = true; };
+  }, [brand.fonts]);
 
-  function drawIntro(ctx: CanvasRenderingContext2D, bmp: ImageBitmap | undefined, title: string, subtitle: string, prog: number, style: Props["style"]) {
-    const W = ctx.canvas.width, H = ctx.canvas.height;
-    if (bmp) {
-      const fit = fitCover(bmp.width, bmp.height, W, H);
-      // Subtle zoom
-      const zoom = 1.04 + prog * 0.04;
-      const cx = fit.x + fit.w * 0.5;
-      const cy = fit.y + fit.h * 0.5;
-      const w = fit.w * zoom, h = fit.h * zoom;
-      ctx.globalAlpha = 0.9;
-      ctx.drawImage(bmp, 0,0,bmp.width,bmp.height, cx - w/2, cy - h/2, w, h);
-      ctx.globalAlpha = 1;
-      // blur overlay
-      ctx.fillStyle = "rgba(0,0,0,0.35)";
-      ctx.fillRect(0,0,W,H);
+  // Draw times and frame rate for the stats overlay
+  const [meter] = useState(()=>createFrameMeter());
+  const [showStats, setShowStats] = useState(false);
+  const [stats, setStats] = useState<FrameStats | null>(null);
+  useEffect(()=>{
+    if (!showStats) return;
+    const id = setInterval(()=>setStats(meter.read()), 250);
+    return ()=>clearInterval(id);
+  }, [showStats, meter]);
+
+  // Clips on screen at tMs and the clip time each should show
+  const activeClips = useCallback((tMs: number)=>{
+    const frame = frameAt(schedule, Math.min(tMs, totalDurationMs - 1));
+    if (!frame) return [];
+    const parts = frame.incoming ? [frame.current, frame.incoming] : [frame.current];
+    return parts.flatMap(({ entry, prog })=>{
+      const scene = entry.scene;
+      if (scene.kind !== "image") return [];
+      const asset = assets[assetIndex.get(scene.params.assetId) ?? -1];
+      const m = asset && media.get(asset.id);
+      if (m?.kind !== "video") return [];
+      const clip = asset.clip ?? DEFAULT_CLIP;
+      const ms = clipTimeMs(clip, m.durationMs, scene.durationMs, prog);
+      const held = ms < clipTimeMs(clip, Infinity, scene.durationMs, prog);
+      return [{ id: asset.id, video: m.source, ms, held }];
+    });
+  }, [schedule, totalDurationMs, assets, assetIndex, media]);
+
+  // Show the frame at tMs: posted to the worker with the clips' current
+  // frames, or drawn here
+  const present = useCallback(async (tMs: number)=>{
+    const preview = previewRef.current;
+    if (!preview) {
+      const ctx = canvasRef.current?.getContext("2d");
+      if (!ctx) return;
+      const start = performance.now();
+      drawFrame(ctx, tMs);
+      meter.tick(performance.now() - start);
+      return;
     }
-    const fade = Math.min(1, prog * 1.5);
-    ctx.fillStyle = `rgba(255,255,255,${fade})`;
-    ctx.textAlign = "left";
-    ctx.textBaseline = "alphabetic";
-
-    ctx.font = `700 ${Math.round(W*0.055)}px ui-sans-serif, system-ui`;
-    ctx.fillText(title, W*0.08, H*0.52);
-
-    ctx.globalAlpha = 0.9;
-    ctx.font = `400 ${Math.round(W*0.025)}px ui-sans-serif, system-ui`;
-    ctx.fillText(subtitle, W*0.08, H*0.58);
-    ctx.globalAlpha = 1;
-  }
-
-  function drawImageScene(ctx: CanvasRenderingContext2D, bmp: ImageBitmap | undefined, caption: string | undefined, index: number, prog: number, style: Props["style"]) {
-    const W = ctx.canvas.width, H = ctx.canvas.height;
-    if (bmp) {
-      const fit = fitCover(bmp.width, bmp.height, W, H);
-      const path = kenBurnsPath(index);
-      const scale = lerp(path.startScale, path.endScale, prog);
-      const panX = lerp(path.startX, path.endX, prog);
-      const panY = lerp(path.startY, path.endY, prog);
-
-      const viewW = fit.w * scale;
-      const viewH = fit.h * scale;
-      const x = fit.x + (fit.w - viewW) * panX;
-      const y = fit.y + (fit.h - viewH) * panY;
-
-      ctx.globalAlpha = 1;
-      ctx.drawImage(bmp, 0,0,bmp.width,bmp.height, x, y, viewW, viewH);
-
-      // Subtle black gradient at bottom for legibility
-      const grad = ctx.createLinearGradient(0, H*0.7, 0, H);
-      grad.addColorStop(0, "rgba(0,0,0,0)");
-      grad.addColorStop(1, "rgba(0,0,0,0.55)");
-      ctx.fillStyle = grad;
-      ctx.fillRect(0, H*0.7, W, H*0.3);
+    const clips = await Promise.all(activeClips(tMs).map(c => createImageBitmap(c.video).then((frame): ClipFrame => ({ id: c.id, frame }), ()=>null)));
+    meter.tick(await preview.draw(tMs, clips.filter((c): c is ClipFrame => !!c)));
+  }, [drawFrame, meter, activeClips]);
+
+  // Frame-exact: wait for every visible clip to land on its frame
+  const seekClips = useCallback(async (tMs: number)=>{
+    for (const c of activeClips(tMs)) await seekVideo(c.video, c.ms);
+  }, [activeClips]);
+
+  // Preview: let clips play and only correct drift
+  const syncClips = useCallback((tMs: number, rate = 1)=>{
+    const active = activeClips(tMs);
+    for (const m of media.values()) {
+      if (m?.kind === "video" && !active.some(c => c.video === m.source)) m.source.pause();
     }
-
-    if (caption) {
-      ctx.textAlign = "left";
-      ctx.textBaseline = "alphabetic";
-      ctx.fillStyle = "white";
-      ctx.font = `600 ${Math.round(W*0.032)}px ui-sans-serif, system-ui`;
-      ctx.fillText(caption, W*0.06, H*0.92);
+    for (const c of active) {
+      c.video.playbackRate = rate;
+      if (Math.abs(c.video.currentTime * 1000 - c.ms) > 250 * rate) c.video.currentTime = c.ms / 1000;
+      if (c.held) c.video.pause();
+      else if (c.video.paused) c.video.play().catch(()=>{});
     }
-  }
-
-  function drawPrice(ctx: CanvasRenderingContext2D, price: string, cta: string, prog: number, style: Props["style"]) {
-    const W = ctx.canvas.width, H = ctx.canvas.height;
-    // gradient bg
-    const g = ctx.createLinearGradient(0,0,W,H);
-    g.addColorStop(0, "#1f1c2c");
-    g.addColorStop(1, "#928DAB");
-    ctx.fillStyle = g;
-    ctx.fillRect(0,0,W,H);
-
-    // fade-in
-    const fade = Math.min(1, prog * 1.5);
-    ctx.globalAlpha = 0.9 * fade;
-
-    ctx.fillStyle = "white";
-    ctx.textAlign = "center";
-    ctx.textBaseline = "alphabetic";
-
-    ctx.font = `800 ${Math.round(W*0.095)}px ui-sans-serif, system-ui`;
-    ctx.fillText(price, W/2, H*0.48);
-    ctx.globalAlpha = 1 * fade;
-
-    // CTA pill
-    const pillW = W*0.36, pillH = Math.round(W*0.06);
-    const x = W/2 - pillW/2, y = H*0.58 - pillH/2, r = pillH/2;
-    ctx.fillStyle = "#6366f1";
-    roundRect(ctx, x, y, pillW, pillH, r);
-    ctx.fill();
-
-    ctx.fillStyle = "white";
-    ctx.font = `600 ${Math.round(W*0.03)}px ui-sans-serif, system-ui`;
-    ctx.fillText(cta, W/2, H*0.59 + Math.round(W*0.012));
-  }
-
-  function roundRect(ctx: CanvasRenderingContext2D, x:number,y:number,w:number,h:number,r:number) {
-    const rr = Math.min(r, w/2, h/2);
-    ctx.beginPath();
-    ctx.moveTo(x+rr, y);
-    ctx.arcTo(x+w, y, x+w, y+h, rr);
-    ctx.arcTo(x+w, y+h, x, y+h, rr);
-    ctx.arcTo(x, y+h, x, y, rr);
-    ctx.arcTo(x, y, x+w, y, rr);
-    ctx.closePath();
-  }
+  }, [activeClips, media]);
 
-  function drawVignette(ctx: CanvasRenderingContext2D) {
-    const W = ctx.canvas.width, H = ctx.canvas.height;
-    const grad = ctx.createRadialGradient(W/2, H/2, Math.min(W,H)*0.3, W/2, H/2, Math.max(W,H)*0.7);
-    grad.addColorStop(0, "rgba(0,0,0,0)");
-    grad.addColorStop(1, "rgba(0,0,0,0.5)");
-    ctx.fillStyle = grad;
-    ctx.fillRect(0,0,W,H);
-  }
-
-  function drawLetterbox(ctx: CanvasRenderingContext2D) {
-    const W = ctx.canvas.width, H = ctx.canvas.height;
-    // target 2.35:1 frame within canvas bounds
-    const targetH = Math.min(H, Math.round(W / 2.35));
-    const pad = Math.max(0, (H - targetH) / 2);
-    ctx.fillStyle = "rgba(0,0,0,0.75)";
-    ctx.fillRect(0, 0, W, pad);
-    ctx.fillRect(0, H - pad, W, pad);
-  }
+  // Keep the playhead inside a shortened timeline
+  useEffect(()=>{
+    if (timeRef.current >= totalDurationMs) {
+      timeRef.current = 0;
+      setTimeMs(0);
+    }
+    setLoop((l)=>l && l.endMs >= totalDurationMs ? null : l);
+  }, [totalDurationMs]);
 
-  // Continuous preview
+  // Playing: advance the clock every animation frame; while the worker is
+  // still drawing the previous frame the clock moves on without it
   useEffect(()=>{
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const _ctx = canvas.getContext("2d") as CanvasRenderingContext2D | null;
-    if (!_ctx) return;
-    const ctx: CanvasRenderingContext2D = _ctx;
-
-    function loop(ts: number) {
-      if (previewStartRef.current == null) previewStartRef.current = ts;
-      const start = previewStartRef.current!;
-      const elapsed = (ts - start) % Math.max(totalDurationMs, 1);
-      drawFrame(ctx, elapsed);
-      rafRef.current = requestAnimationFrame(loop);
+    if (!isPlaying || !canvasRef.current) return;
+    let raf = 0;
+    let last: number | null = null;
+    let busy = false;
+    function step(ts: number) {
+      const t = advance(timeRef.current, last == null ? 0 : (ts - last) * rate, totalDurationMs, loop);
+      last = ts;
+      timeRef.current = t;
+      // An export owns the canvas and clips while it runs
+      if (!exportingRef.current) {
+        syncClips(t, rate);
+        if (!busy) {
+          busy = true;
+          present(t).catch(()=>{}).finally(()=>{ busy = false; });
+        }
+      }
+      setTimeMs(t);
+      raf = requestAnimationFrame(step);
     }
-    rafRef.current = requestAnimationFrame(loop);
-    return ()=>{ if (rafRef.current) cancelAnimationFrame(rafRef.current); };
-  }, [bitmaps, productName, tagline, features.join("|"), price, cta, ratio, style, totalDurationMs]);
+    raf = requestAnimationFrame(step);
+    return ()=>cancelAnimationFrame(raf);
+  }, [isPlaying, rate, loop, totalDurationMs, syncClips, present]);
+
+  // Paused: draw only when the frame or its content changes. Resizing clears
+  // the canvas, and the worker's media and fonts arrive after the input.
+  useEffect(()=>{
+    if (isPlaying || !canvasRef.current) return;
+    let cancelled = false;
+    (async ()=>{
+      if (exportingRef.current) return;
+      for (const m of media.values()) if (m?.kind === "video") m.source.pause();
+      await seekClips(timeMs);
+      if (!cancelled && !exportingRef.current) await present(timeMs).catch(()=>{});
+    })();
+    return ()=>{ cancelled = true; };
+  }, [isPlaying, timeMs, media, seekClips, present, width, height, workerVersion]);
 
   // Recording API
   useImperativeHandle(ref, ()=>({
     totalDurationMs,
-    startRecording: async (): Promise<Blob> => {
-      const canvas = canvasRef.current!;
-      const ctx = canvas.getContext("2d")!;
+    // On-screen copy and voice-over captions, for sidecars and muxing
+    textTrack: () => mergeCues(renderer.textCues(), voiceOverCues),
+    // Resolves once the composer shows exactly these assets, all loaded
+    whenReady: (ids: string[]) => new Promise<void>((resolve)=>{
+      const key = ids.join("|");
+      if (key === assetIds && assets.every(a => media.has(a.id))) resolve();
+      else readyWaiters.current.push({ ids: key, resolve });
+    }),
+    // size overrides the preview size, e.g. for batch export; needs WebCodecs
+    startRecording: async (settings: ExportSettings, onProgress?: (p: number) => void, size?: { width: number; height: number }): Promise<Blob> => {
+      const audio = await mixAudio();
+      const realtime = () => {
+        if (size && (size.width !== width || size.height !== height)) {
+          throw new Error("Exporting other sizes needs WebCodecs, which this browser lacks");
+        }
+        return recordRealtime(settings, audio);
+      };
+      if (!supportsOfflineRender()) return realtime();
+      let format = settings.format;
+      if (audio && !await supportsOfflineAudio(format)) {
+        // WebM/Opus keeps the export frame-exact; a worker preview holds the
+        // canvas, so without it renderOffline reports the missing encoder
+        if (format === "mp4" && await supportsOfflineAudio("webm")) format = "webm";
+        else if (!previewRef.current) return realtime();
+      }
+      exportingRef.current = true;
+      for (const m of media.values()) if (m?.kind === "video") m.source.pause();
+      try {
+        return await renderOffline({
+          width: size?.width ?? width,
+          height: size?.height ?? height,
+          format,
+          fps: settings.fps,
+          durationMs: totalDurationMs,
+          videoBitrate: settings.bitrate,
+          draw: drawFrame,
+          prepare: seekClips,
+          audio,
+          subtitles: settings.subtitles ? mergeCues(renderer.textCues(), voiceOverCues) : null,
+          language: locale,
+          onProgress,
+        });
+      } finally {
+        exportingRef.current = false;
+      }
+    },
+    stopRecording: () => {
+      // Not used; recording stops automatically at end
+    }
+  }), [totalDurationMs, schedule, audioFile, audioMix, media, assets, renderer, voiceOverCues, locale, width, height]);
+
+  async function mixAudio() {
+    const clips = await clipAudio();
+    const music = audioFile ? await decodeAudioFile(audioFile) : null;
+    if (!music && clips.length === 0) return null;
+    return renderAudioMix(music, audioMix, schedule, totalDurationMs, clips);
+  }
 
-      // Ensure steady start
+  // Sound of clips that keep their audio, placed at their scenes
+  async function clipAudio() {
+    const decoded = new Map<string, AudioBuffer | null>();
+    const out: ClipAudio[] = [];
+    for (const entry of schedule) {
+      const scene = entry.scene;
+      if (scene.kind !== "image") continue;
+      const asset = assets[assetIndex.get(scene.params.assetId) ?? -1];
+      const m = asset && media.get(asset.id);
+      if (!asset?.clip?.keepAudio || m?.kind !== "video") continue;
+      if (!decoded.has(asset.id)) decoded.set(asset.id, await decodeAudioFile(asset.file));
+      const buffer = decoded.get(asset.id);
+      if (!buffer) continue;
+      const clip = asset.clip;
+      const offsetMs = clipTimeMs(clip, m.durationMs, scene.durationMs, 0);
+      const endMs = clipTimeMs(clip, m.durationMs, scene.durationMs, 1);
+      out.push({ buffer, startMs: entry.start, offsetMs, durationMs: endMs - offsetMs });
+    }
+    return out;
+  }
+
+  // Real-time capture, used where WebCodecs is unavailable
+  async function recordRealtime(settings: ExportSettings, audio: AudioBuffer | null): Promise<Blob> {
+    const canvas = canvasRef.current!;
+    const ctx = canvas.getContext("2d")!;
+    let audioCtx: AudioContext | null = null;
+    let recorder: MediaRecorder | null = null;
+
+    // Ensure steady start
+    exportingRef.current = true;
+    try {
+      await seekClips(0);
       drawFrame(ctx, 0);
 
-      const fps = 30;
+      const { fps } = settings;
       const stream = canvas.captureStream(fps);
 
-      let audioEl: HTMLAudioElement | null = null;
+      // Play the pre-mixed buffer into a stream destination
+      let audioNode: AudioBufferSourceNode | null = null;
       let audioTrack: MediaStreamTrack | null = null;
-      if (audioFile) {
-        const url = URL.createObjectURL(audioFile);
-        audioEl = new Audio(url);
-        audioEl.crossOrigin = "anonymous";
-        try {
-          const astream = (audioEl as any).captureStream ? (audioEl as any).captureStream() : null;
-          if (astream) {
-            audioTrack = astream.getAudioTracks()[0] ?? null;
-          }
-        } catch {}
+      if (audio) {
+        audioCtx = new AudioContext();
+        const dest = audioCtx.createMediaStreamDestination();
+        audioNode = audioCtx.createBufferSource();
+        audioNode.buffer = audio;
+        audioNode.connect(dest);
+        audioTrack = dest.stream.getAudioTracks()[0] ?? null;
       }
 
       const combined = new MediaStream([
@@ -291,51 +456,61 @@ export const VideoComposer = forwardRef(function VideoComposer(props: Props, ref
         ...(audioTrack ? [audioTrack] : []),
       ]);
 
-      const mime = selectMimeType();
-      const recorder = new MediaRecorder(combined, { mimeType: mime, videoBitsPerSecond: 6_000_000 });
+      const mime = selectMimeType(settings.format);
+      recorder = new MediaRecorder(combined, { mimeType: mime, videoBitsPerSecond: settings.bitrate });
       const chunks: BlobPart[] = [];
       recorder.ondataavailable = (e) => { if (e.data.size) chunks.push(e.data); };
 
       const duration = totalDurationMs;
-      let resolve!: (b: Blob)=>void;
-      const done = new Promise<Blob>((res)=>resolve = res);
-      recorder.onstop = () => {
-        if (audioEl) { try { audioEl.pause(); } catch {} }
-        resolve(new Blob(chunks, { type: mime }));
-      };
+      const done = new Promise<Blob>((resolve)=>{
+        recorder!.onstop = () => resolve(new Blob(chunks, { type: mime }));
+      });
 
       recorder.start();
-      if (audioEl) {
-        try { await audioEl.play(); } catch {}
+      if (audioCtx && audioNode) {
+        try { await audioCtx.resume(); audioNode.start(); } catch {}
       }
 
-      // Render timeline deterministically
+      // Render timeline in real time
       const start = performance.now();
-      await new Promise<void>((res)=>{
+      await new Promise<void>((res, rej)=>{
         function step() {
-          const now = performance.now();
-          const t = now - start;
-          const clamped = Math.min(t, duration - 1);
-          drawFrame(ctx, clamped);
-          if (t < duration) requestAnimationFrame(step); else res();
+          try {
+            const now = performance.now();
+            const t = now - start;
+            const clamped = Math.min(t, duration - 1);
+            syncClips(clamped);
+            drawFrame(ctx, clamped);
+            if (t < duration) requestAnimationFrame(step); else res();
+          } catch (err) {
+            rej(err);
+          }
         }
         requestAnimationFrame(step);
       });
 
       recorder.stop();
-      return done;
-    },
-    stopRecording: () => {
-      // Not used; recording stops automatically at end
+      return await done;
+    } finally {
+      if (recorder?.state === "recording") recorder.stop();
+      if (audioCtx) { try { await audioCtx.close(); } catch {} }
+      exportingRef.current = false;
     }
-  }), [totalDurationMs, audioFile, bitmaps, productName, tagline, features.join("|"), price, cta, ratio, style]);
+  }
 
-  function selectMimeType() {
-    const cand = [
+  function selectMimeType(format: ExportFormat) {
+    const mp4 = [
+      "video/mp4;codecs=avc1.42E01F,mp4a.40.2",
+      "video/mp4;codecs=avc1,mp4a",
+      "video/mp4",
+    ];
+    const webm = [
       "video/webm;codecs=vp9,opus",
       "video/webm;codecs=vp8,opus",
       "video/webm",
     ];
+    // Prefer the requested container, fall back to whatever the recorder can do
+    const cand = format === "mp4" ? [...mp4, ...webm] : [...webm, ...mp4];
     for (const m of cand) {
       if ((window as any).MediaRecorder && MediaRecorder.isTypeSupported(m)) return m;
     }
@@ -345,18 +520,40 @@ export const VideoComposer = forwardRef(function VideoComposer(props: Props, ref
   return (
     <div className="w-full">
       <div className="aspect-video relative bg-black/60 rounded-lg overflow-hidden border border-white/10" style={{
-        aspectRatio: ratio === "16:9" ? "16 / 9" : ratio === "9:16" ? "9 / 16" : "1 / 1",
+        aspectRatio: ratio.replace(":", " / "),
       }}>
-        <canvas ref={canvasRef} width={width} height={height} className="w-full h-full object-contain" />
-        {bitmaps.length === 0 && (
+        <div ref={surfaceRef} className="w-full h-full" />
+        {showStats && stats && (
+          <div className="pointer-events-none absolute left-2 top-2 rounded bg-black/70 px-1.5 py-0.5 font-mono text-[10px] text-white/80">
+            {stats.fps.toFixed(0)} fps · {stats.frameMs.toFixed(1)} ms (max {stats.worstMs.toFixed(1)}) · {previewRef.current ? "worker" : "main thread"}
+          </div>
+        )}
+        {media.size === 0 && (
           <div className="absolute inset-0 grid place-items-center text-white/60 text-sm">
-            Add some product images to preview.
+            Add some product images or clips to preview.
           </div>
         )}
       </div>
+      <TransportBar
+        timeMs={timeMs}
+        durationMs={totalDurationMs}
+        fps={fps}
+        isPlaying={isPlaying}
+        rate={rate}
+        loop={loop}
+        markers={markers}
+        onSeek={seek}
+        onPlayPause={()=>setIsPlaying(!isPlaying)}
+        onStep={(frames)=>{ setIsPlaying(false); seek(stepFrames(timeRef.current, frames, fps, totalDurationMs)); }}
+        onRate={setRate}
+        onLoop={setLoop}
+      />
       <div className="flex items-center justify-between mt-2 text-xs text-white/60">
         <div>{Math.round(totalDurationMs/100)/10}s total</div>
-        <div>{width}?{height}</div>
+        <div className="flex items-center gap-3">
+          <button className="hover:text-white" onClick={()=>setShowStats(!showStats)}>{showStats ? "Hide stats" : "Stats"}</button>
+          <div>{width}?{height}</div>
+        </div>
       </div>
     </div>
   );
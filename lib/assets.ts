@@ -0,0 +1,91 @@
+// Asset tray: the images and clips of a project, in order, each carrying its
+// own caption, duration and framing so they travel with it when reordered.
+import type { Framing } from "@/lib/kenburns";
+import { isMediaFile, type ClipSettings } from "@/lib/media";
+import type { Timeline } from "@/lib/timeline";
+
+export interface Asset {
+  id: string;
+  file: File;
+  // Content hash, for duplicate detection; empty until computed
+  fingerprint: string;
+  // Unset caption falls back to the feature line at the asset's position
+  caption?: string;
+  // Overrides the duration of this asset's image scenes
+  durationMs?: number;
+  // Unset framing uses the canned Ken Burns path
+  framing?: Framing;
+  // Only applies to video clips
+  clip?: ClipSettings;
+}
+
+export function newAssetId() {
+  return `a${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Hashing whole videos is slow; size plus both ends is plenty to spot a
+// file that was dropped twice
+const SAMPLE_BYTES = 1 << 20;
+
+export async function fingerprint(file: Blob) {
+  const head = file.slice(0, SAMPLE_BYTES);
+  const tail = file.size > SAMPLE_BYTES ? file.slice(-SAMPLE_BYTES) : new Blob();
+  const data = await new Blob([`${file.size}:`, head, tail]).arrayBuffer();
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+  return Array.from(digest, b => b.toString(16).padStart(2, "0")).join("");
+}
+
+// New assets for dropped files; media only, skipping files already in the
+// tray (or dropped twice at once)
+export async function createAssets(files: File[], existing: Asset[]) {
+  const seen = new Set<string>();
+  for (const a of existing) seen.add(a.fingerprint || await fingerprint(a.file));
+  const added: Asset[] = [];
+  const duplicates: File[] = [];
+  for (const file of files.filter(isMediaFile)) {
+    const fp = await fingerprint(file);
+    if (seen.has(fp)) {
+      duplicates.push(file);
+      continue;
+    }
+    seen.add(fp);
+    added.push({ id: newAssetId(), file, fingerprint: fp });
+  }
+  return { added, duplicates };
+}
+
+export function assetCaption(assets: Pick<Asset, "caption">[], features: string[], index: number) {
+  return assets[index]?.caption ?? features[index];
+}
+
+// Reordering pins every caption to its asset first, so captions that still
+// come from the feature list move with their image too
+export function moveAsset(assets: Asset[], features: string[], id: string, toIndex: number): Asset[] {
+  const from = assets.findIndex(a => a.id === id);
+  if (from < 0 || from === toIndex) return assets;
+  const next = assets.map((a, i) => a.caption === undefined && features[i] !== undefined ? { ...a, caption: features[i] } : a);
+  const [moved] = next.splice(from, 1);
+  next.splice(Math.max(0, Math.min(next.length, toIndex)), 0, moved);
+  return next;
+}
+
+export function updateAsset(assets: Asset[], id: string, patch: Partial<Omit<Asset, "id" | "file">>): Asset[] {
+  return assets.map(a => a.id === id ? { ...a, ...patch } : a);
+}
+
+export function removeAsset(assets: Asset[], id: string): Asset[] {
+  return assets.filter(a => a.id !== id);
+}
+
+// Image scenes take their asset's duration override
+export function applyAssetDurations(timeline: Timeline, assets: Asset[]): Timeline {
+  const durations = new Map(assets.flatMap(a => a.durationMs ? [[a.id, a.durationMs] as const] : []));
+  if (!durations.size) return timeline;
+  return {
+    ...timeline,
+    scenes: timeline.scenes.map(s => {
+      const d = s.kind === "image" ? durations.get(s.params.assetId) : undefined;
+      return d && d !== s.durationMs ? { ...s, durationMs: d } : s;
+    }),
+  };
+}
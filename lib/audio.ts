@@ -0,0 +1,134 @@
+// Music mixing on a Web Audio graph, rendered with OfflineAudioContext so the
+// result lines up sample-accurately with the exported frames.
+import type { ScheduledScene, SceneKind } from "@/lib/timeline";
+
+export interface AudioMix {
+  // Where playback starts inside the track
+  offsetMs: number;
+  // How much of the track to use; null plays until the video ends
+  trimMs: number | null;
+  volume: number;
+  // Fades follow the intro / outro scenes when present
+  fadeIn: boolean;
+  fadeOut: boolean;
+  // Music dips to duckLevel while these scenes are on screen
+  duckScenes: SceneKind[];
+  duckLevel: number;
+}
+
+export const DEFAULT_AUDIO_MIX: AudioMix = {
+  offsetMs: 0,
+  trimMs: null,
+  volume: 0.9,
+  fadeIn: true,
+  fadeOut: true,
+  duckScenes: [],
+  duckLevel: 0.35,
+};
+
+// A video clip's own audio, placed on the output timeline
+export interface ClipAudio {
+  buffer: AudioBuffer;
+  startMs: number;
+  // Position inside the clip where playback starts
+  offsetMs: number;
+  durationMs: number;
+}
+
+const DEFAULT_FADE_MS = 600;
+const DUCK_RAMP_MS = 250;
+
+export async function decodeAudioFile(file: File, sampleRate = 48_000) {
+  try {
+    const ctx = new OfflineAudioContext(2, 1, sampleRate);
+    return await ctx.decodeAudioData(await file.arrayBuffer());
+  } catch {
+    return null;
+  }
+}
+
+// Fade spans derived from the schedule: the opening intro and the closing outro
+export function fadeWindows(schedule: ScheduledScene[], durationMs: number) {
+  const first = schedule[0];
+  const last = schedule[schedule.length - 1];
+  const fadeInMs = first?.scene.kind === "intro" ? first.end - first.start : DEFAULT_FADE_MS;
+  const fadeOutMs = last?.scene.kind === "outro" ? last.end - last.start : DEFAULT_FADE_MS;
+  return {
+    fadeInMs: Math.min(fadeInMs, durationMs),
+    fadeOutMs: Math.min(fadeOutMs, durationMs),
+  };
+}
+
+// Merged [start, end] ranges (ms) during which the music is ducked
+export function duckRegions(schedule: ScheduledScene[], kinds: SceneKind[]) {
+  return mergeRegions(schedule.filter(s => kinds.includes(s.scene.kind)).map((s): [number, number] => [s.start, s.end]));
+}
+
+function mergeRegions(regions: [number, number][]) {
+  const out: [number, number][] = [];
+  for (const [s, e] of [...regions].sort((a, b) => a[0] - b[0])) {
+    const last = out[out.length - 1];
+    if (last && s <= last[1] + DUCK_RAMP_MS * 2) last[1] = Math.max(last[1], e);
+    else out.push([s, e]);
+  }
+  return out;
+}
+
+// Music (optional) plus kept clip audio. The music ducks under the chosen
+// scenes and under every clip that keeps its sound.
+export async function renderAudioMix(
+  source: AudioBuffer | null,
+  mix: AudioMix,
+  schedule: ScheduledScene[],
+  durationMs: number,
+  clips: ClipAudio[] = [],
+  sampleRate = 48_000,
+): Promise<AudioBuffer> {
+  const channels = Math.min(2, Math.max(source?.numberOfChannels ?? 1, ...clips.map(c => c.buffer.numberOfChannels)));
+  const length = Math.max(1, Math.round(durationMs / 1000 * sampleRate));
+  const ctx = new OfflineAudioContext(channels, length, sampleRate);
+  const end = durationMs / 1000;
+
+  for (const clip of clips) {
+    const node = ctx.createBufferSource();
+    node.buffer = clip.buffer;
+    node.connect(ctx.destination);
+    node.start(clip.startMs / 1000, clip.offsetMs / 1000, clip.durationMs / 1000);
+  }
+  if (!source) return ctx.startRendering();
+
+  const node = ctx.createBufferSource();
+  node.buffer = source;
+
+  // source → duck → fade → master
+  const duck = ctx.createGain();
+  const fade = ctx.createGain();
+  const master = ctx.createGain();
+  master.gain.value = mix.volume;
+  node.connect(duck).connect(fade).connect(master).connect(ctx.destination);
+
+  const level = Math.max(0, Math.min(1, mix.duckLevel));
+  const ramp = DUCK_RAMP_MS / 1000;
+  duck.gain.setValueAtTime(1, 0);
+  const clipRegions = clips.map((c): [number, number] => [c.startMs, c.startMs + c.durationMs]);
+  for (const [s, e] of mergeRegions([...duckRegions(schedule, mix.duckScenes), ...clipRegions])) {
+    const a = s / 1000, b = e / 1000;
+    duck.gain.setValueAtTime(1, Math.max(0, a - ramp));
+    duck.gain.linearRampToValueAtTime(level, a);
+    duck.gain.setValueAtTime(level, b);
+    duck.gain.linearRampToValueAtTime(1, Math.min(end, b + ramp));
+  }
+
+  const playMs = Math.min(durationMs, mix.trimMs ?? Infinity);
+  const stop = playMs / 1000;
+  const { fadeInMs, fadeOutMs } = fadeWindows(schedule, playMs);
+  fade.gain.setValueAtTime(mix.fadeIn ? 0 : 1, 0);
+  if (mix.fadeIn) fade.gain.linearRampToValueAtTime(1, fadeInMs / 1000);
+  if (mix.fadeOut) {
+    fade.gain.setValueAtTime(1, Math.max(fadeInMs / 1000, stop - fadeOutMs / 1000));
+    fade.gain.linearRampToValueAtTime(0, stop);
+  }
+
+  node.start(0, Math.max(0, mix.offsetMs) / 1000, stop);
+  return ctx.startRendering();
+}
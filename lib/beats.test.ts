@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { detectBeats, syncTimelineToBeats } from "@/lib/beats";
+import { createScene, scheduleTimeline, type Timeline } from "@/lib/timeline";
+
+const SAMPLE_RATE = 22_050;
+// Beats are timed by the start of the analysis frame that hears the click,
+// which runs up to two hops (about 46 ms here) early
+const BEAT_TOLERANCE_MS = 50;
+
+// Short decaying noise bursts every beat, from a fixed seed
+function clickTrack(bpm: number, seconds: number, firstBeatMs: number) {
+  const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  const periodMs = 60_000 / bpm;
+  const clickLength = Math.round(0.01 * SAMPLE_RATE);
+  let seed = 1;
+  const noise = () => {
+    seed = (seed * 16807) % 2147483647;
+    return seed / 2147483647 * 2 - 1;
+  };
+  const clicksMs: number[] = [];
+  for (let t = firstBeatMs; t < seconds * 1000; t += periodMs) {
+    clicksMs.push(t);
+    const start = Math.round(t / 1000 * SAMPLE_RATE);
+    for (let i = 0; i < clickLength && start + i < samples.length; i++) {
+      samples[start + i] = 0.8 * noise() * Math.exp(-i / (clickLength / 4));
+    }
+  }
+  return { samples, clicksMs };
+}
+
+describe("detectBeats", () => {
+  it.each([90, 120, 150])("finds the tempo and beats of a %i BPM click track", (bpm) => {
+    const { samples, clicksMs } = clickTrack(bpm, 12, 250);
+    const analysis = detectBeats(samples, SAMPLE_RATE);
+
+    expect(analysis.bpm).toBeGreaterThan(bpm * 0.97);
+    expect(analysis.bpm).toBeLessThan(bpm * 1.03);
+
+    // Every detected beat sits on a click, and most clicks are found
+    const offBy = (t: number) => Math.min(...clicksMs.map(c => Math.abs(c - t)));
+    for (const beat of analysis.beatsMs) expect(offBy(beat)).toBeLessThanOrEqual(BEAT_TOLERANCE_MS);
+    expect(analysis.beatsMs.length).toBeGreaterThanOrEqual(clicksMs.length - 2);
+  });
+
+  it("reports no tempo for silence", () => {
+    const analysis = detectBeats(new Float32Array(SAMPLE_RATE * 4), SAMPLE_RATE);
+    expect(analysis.bpm).toBe(0);
+    expect(analysis.onsetsMs).toEqual([]);
+  });
+});
+
+describe("syncTimelineToBeats", () => {
+  // A beat every 500 ms, starting 130 ms into the track
+  const beats = Array.from({ length: 40 }, (_, i) => 130 + i * 500);
+
+  const timeline = (imageMs: number, transitionMs: number): Timeline => ({
+    version: 1,
+    scenes: [
+      createScene("intro", {}, 1500),
+      createScene("image", {}, imageMs),
+      createScene("image", {}, imageMs),
+      createScene("outro", {}, 800),
+    ],
+    defaultTransition: { kind: "crossfade", durationMs: transitionMs },
+  });
+
+  // Cuts sit in the middle of each overlap
+  const cuts = (t: Timeline) => scheduleTimeline(t).slice(1).map(s => s.start + s.overlapMs / 2);
+  const offBeat = (t: number) => Math.min(...beats.map(b => Math.abs(b - t)));
+
+  it.each([
+    ["short transitions", 3200, 500],
+    ["transitions capped by the scene length", 1500, 1000],
+  ])("puts every cut on a beat with %s", (_, imageMs, transitionMs) => {
+    const synced = syncTimelineToBeats(timeline(imageMs, transitionMs), beats);
+    for (const cut of cuts(synced)) expect(offBeat(cut)).toBeLessThanOrEqual(1);
+  });
+
+  it("measures beats from where the music starts", () => {
+    const synced = syncTimelineToBeats(timeline(3200, 0), beats, 100);
+    for (const cut of cuts(synced)) expect(offBeat(cut + 100)).toBeLessThanOrEqual(1);
+  });
+});
@@ -0,0 +1,244 @@
+// Tempo and beat estimation for the music track, plus snapping of scene
+// cuts to the detected beats. Works on raw mono samples so it can be run
+// against synthetic click tracks without Web Audio.
+import { scheduleTimeline, type Timeline } from "@/lib/timeline";
+
+export interface BeatAnalysis {
+  bpm: number;
+  // Beat and onset positions in track time (ms)
+  beatsMs: number[];
+  onsetsMs: number[];
+}
+
+const FRAME = 1024;
+const HOP = 512;
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+const PRIOR_BPM = 120;
+// Penalty weight for beat intervals that stray from the tempo period
+const TIGHTNESS = 100;
+
+export function analyzeAudioBuffer(buffer: AudioBuffer): BeatAnalysis {
+  const mono = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < data.length; i++) mono[i] += data[i] / buffer.numberOfChannels;
+  }
+  return detectBeats(mono, buffer.sampleRate);
+}
+
+export function detectBeats(samples: Float32Array, sampleRate: number): BeatAnalysis {
+  const env = onsetEnvelope(samples);
+  const frameMs = HOP / sampleRate * 1000;
+  if (env.length < 4) return { bpm: 0, beatsMs: [], onsetsMs: [] };
+
+  const onsetsMs = pickPeaks(env).map(i => i * frameMs);
+  const period = estimatePeriod(env, sampleRate);
+  if (!period) return { bpm: 0, beatsMs: [], onsetsMs };
+
+  const beatsMs = trackBeats(env, period).map(i => i * frameMs);
+  return { bpm: 60_000 / (period * frameMs), beatsMs, onsetsMs };
+}
+
+// Spectral flux: summed positive change in log magnitude between frames,
+// normalized to unit peak
+export function onsetEnvelope(samples: Float32Array) {
+  const frames = Math.max(0, Math.floor((samples.length - FRAME) / HOP) + 1);
+  const env = new Float32Array(frames);
+  const window = new Float32Array(FRAME);
+  for (let i = 0; i < FRAME; i++) window[i] = 0.5 - 0.5 * Math.cos(2 * Math.PI * i / FRAME);
+  const re = new Float32Array(FRAME);
+  const im = new Float32Array(FRAME);
+  let prev = new Float32Array(FRAME / 2);
+  let cur = new Float32Array(FRAME / 2);
+
+  for (let f = 0; f < frames; f++) {
+    const off = f * HOP;
+    for (let i = 0; i < FRAME; i++) { re[i] = samples[off + i] * window[i]; im[i] = 0; }
+    fft(re, im);
+    let flux = 0;
+    for (let k = 0; k < FRAME / 2; k++) {
+      cur[k] = Math.log1p(1000 * Math.hypot(re[k], im[k]));
+      if (f > 0) flux += Math.max(0, cur[k] - prev[k]);
+    }
+    env[f] = flux;
+    [prev, cur] = [cur, prev];
+  }
+
+  // Remove slow trend so sustained loudness does not read as onsets
+  const smoothed = movingAverage(env, 16);
+  let peak = 0;
+  for (let i = 0; i < frames; i++) { env[i] = Math.max(0, env[i] - smoothed[i]); peak = Math.max(peak, env[i]); }
+  if (peak > 0) for (let i = 0; i < frames; i++) env[i] /= peak;
+  return env;
+}
+
+function pickPeaks(env: Float32Array) {
+  const mean = movingAverage(env, 24);
+  const peaks: number[] = [];
+  for (let i = 1; i < env.length - 1; i++) {
+    let isMax = true;
+    for (let j = Math.max(0, i - 3); j <= Math.min(env.length - 1, i + 3); j++) {
+      if (env[j] > env[i]) { isMax = false; break; }
+    }
+    if (isMax && env[i] > mean[i] + 0.1 && (!peaks.length || i - peaks[peaks.length - 1] > 2)) peaks.push(i);
+  }
+  return peaks;
+}
+
+// Tempo period in envelope frames, from weighted autocorrelation
+function estimatePeriod(env: Float32Array, sampleRate: number) {
+  const framesPerMin = 60 * sampleRate / HOP;
+  const minLag = Math.max(1, Math.floor(framesPerMin / MAX_BPM));
+  const maxLag = Math.min(env.length - 1, Math.ceil(framesPerMin / MIN_BPM));
+  const priorLag = framesPerMin / PRIOR_BPM;
+
+  const ac = new Float32Array(maxLag + 2);
+  for (let lag = minLag; lag <= maxLag + 1 && lag < env.length; lag++) {
+    let sum = 0;
+    for (let i = lag; i < env.length; i++) sum += env[i] * env[i - lag];
+    ac[lag] = sum / (env.length - lag);
+  }
+
+  let best = 0, bestScore = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    // Log-gaussian preference for tempi near PRIOR_BPM
+    const w = Math.exp(-0.5 * (Math.log2(lag / priorLag) / 1.0) ** 2);
+    const score = ac[lag] * w;
+    if (score > bestScore) { bestScore = score; best = lag; }
+  }
+  if (!best) return 0;
+
+  // Parabolic refinement around the integer lag
+  const a = ac[best - 1] ?? 0, b = ac[best], c = ac[best + 1] ?? 0;
+  const denom = a - 2 * b + c;
+  const shift = denom !== 0 ? 0.5 * (a - c) / denom : 0;
+  return best + Math.max(-0.5, Math.min(0.5, shift));
+}
+
+// Dynamic-programming beat tracker (Ellis, 2007)
+function trackBeats(env: Float32Array, period: number) {
+  const n = env.length;
+  const score = new Float32Array(n);
+  const from = new Int32Array(n).fill(-1);
+  const lo = Math.round(period / 2), hi = Math.round(period * 2);
+
+  for (let i = 0; i < n; i++) {
+    let best = 0, arg = -1;
+    for (let p = i - hi; p <= i - lo; p++) {
+      if (p < 0) continue;
+      const d = Math.log((i - p) / period);
+      const s = score[p] - TIGHTNESS * d * d;
+      if (arg < 0 || s > best) { best = s; arg = p; }
+    }
+    score[i] = env[i] + (arg >= 0 ? Math.max(0, best) : 0);
+    from[i] = arg >= 0 && best > 0 ? arg : -1;
+  }
+
+  // Start from the strongest score within the last period
+  let end = n - 1;
+  for (let i = Math.max(0, n - Math.ceil(period)); i < n; i++) if (score[i] > score[end]) end = i;
+  const beats: number[] = [];
+  for (let i = end; i >= 0; i = from[i]) beats.unshift(i);
+  return beats;
+}
+
+function movingAverage(x: Float32Array, radius: number) {
+  const out = new Float32Array(x.length);
+  let sum = 0;
+  let lo = 0, hi = -1;
+  for (let i = 0; i < x.length; i++) {
+    while (hi < Math.min(x.length - 1, i + radius)) sum += x[++hi];
+    while (lo < i - radius) sum -= x[lo++];
+    out[i] = sum / (hi - lo + 1);
+  }
+  return out;
+}
+
+// In-place iterative radix-2 FFT
+function fft(re: Float32Array, im: Float32Array) {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const ang = -2 * Math.PI / len;
+    const wr = Math.cos(ang), wi = Math.sin(ang);
+    for (let i = 0; i < n; i += len) {
+      let cr = 1, ci = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const ar = re[i + k + len / 2], ai = im[i + k + len / 2];
+        const tr = ar * cr - ai * ci, ti = ar * ci + ai * cr;
+        re[i + k + len / 2] = re[i + k] - tr;
+        im[i + k + len / 2] = im[i + k] - ti;
+        re[i + k] += tr;
+        im[i + k] += ti;
+        [cr, ci] = [cr * wr - ci * wi, cr * wi + ci * wr];
+      }
+    }
+  }
+}
+
+// --- Timeline sync ---
+
+// Shortest a snapped scene may become, as a share of its nominal length
+const MIN_SCENE_SHARE = 0.5;
+// Snapping a scene can change the overlaps capped by its length, which moves
+// the cuts next to it. Passes repeat until nothing moves: one or two when
+// transitions are short, more when they take half a scene.
+const MAX_SYNC_PASSES = 20;
+
+// Snap every cut that touches an image scene to the nearest beat. A cut
+// with a transition lands on the beat at the middle of the overlap. Beats
+// are given in track time; offsetMs is where the music starts in the track.
+export function syncTimelineToBeats(timeline: Timeline, beatsMs: number[], offsetMs = 0): Timeline {
+  const beats = beatsMs.map(b => b - offsetMs).filter(b => b > 0);
+  if (!beats.length) return timeline;
+
+  const scenes = timeline.scenes.slice();
+  // Overlaps are capped by the scenes on both sides, so every cut is placed
+  // against the schedule of the snapped scenes, not the nominal one
+  const cutAfter = (i: number, durationMs: number) => {
+    const schedule = scheduleTimeline({ ...timeline, scenes: scenes.map((s, j) => j === i ? { ...s, durationMs } : s) });
+    return schedule[i].end - (schedule[i + 1]?.overlapMs ?? 0) / 2;
+  };
+
+  for (let pass = 0; pass < MAX_SYNC_PASSES; pass++) {
+    let changed = false;
+    scenes.forEach((scene, i) => {
+      if (scene.kind !== "image" && scenes[i + 1]?.kind !== "image") return;
+      let lo = scene.durationMs * MIN_SCENE_SHARE;
+      const beat = nearest(beats, cutAfter(i, scene.durationMs), cutAfter(i, lo));
+      if (beat == null) return;
+      // The cut moves at least a quarter as fast as the scene grows
+      let hi = lo + 4 * Math.max(0, beat - cutAfter(i, lo)) + 1;
+      while (hi - lo > 0.25) {
+        const mid = (lo + hi) / 2;
+        if (cutAfter(i, mid) < beat) lo = mid;
+        else hi = mid;
+      }
+      const durationMs = Math.round(hi);
+      if (durationMs === scene.durationMs) return;
+      scenes[i] = { ...scene, durationMs };
+      changed = true;
+    });
+    if (!changed) break;
+  }
+  return { ...timeline, scenes };
+}
+
+function nearest(sorted: number[], target: number, min: number) {
+  let best: number | null = null;
+  for (const b of sorted) {
+    if (b < min) continue;
+    if (best == null || Math.abs(b - target) < Math.abs(best - target)) best = b;
+    else if (b > target) break;
+  }
+  return best;
+}
@@ -0,0 +1,109 @@
+// Client brand kit: logo watermark, brand colours and uploaded web fonts.
+import type { Theme } from "@/lib/themes";
+
+export type LogoCorner = "top-left" | "top-right" | "bottom-left" | "bottom-right";
+
+export interface BrandKit {
+  logo: File | null;
+  logoCorner: LogoCorner;
+  // Watermark width as a fraction of canvas width
+  logoScale: number;
+  logoOpacity: number;
+  // null keeps the theme's own colours
+  primary: string | null;
+  accent: string | null;
+  fonts: File[];
+  headingFont: string | null;
+  bodyFont: string | null;
+}
+
+export const DEFAULT_BRAND_KIT: BrandKit = {
+  logo: null,
+  logoCorner: "top-right",
+  logoScale: 0.12,
+  logoOpacity: 0.9,
+  primary: null,
+  accent: null,
+  fonts: [],
+  headingFont: null,
+  bodyFont: null,
+};
+
+export const LOGO_CORNERS: LogoCorner[] = ["top-left", "top-right", "bottom-left", "bottom-right"];
+
+const FONT_FALLBACK = "ui-sans-serif, system-ui";
+
+// Family name used for an uploaded font file
+export function fontFamilyName(file: File) {
+  return file.name.replace(/\.[^.]+$/, "").replace(/["\\]/g, "").trim() || "Brand font";
+}
+
+// Register uploaded font files with the document (or a worker's font set);
+// resolves to the families that loaded successfully
+export async function loadBrandFonts(files: File[], fonts: FontFaceSet = document.fonts) {
+  const loaded: string[] = [];
+  for (const file of files) {
+    const family = fontFamilyName(file);
+    try {
+      const face = new FontFace(family, await file.arrayBuffer());
+      await face.load();
+      fonts.add(face);
+      loaded.push(family);
+    } catch {}
+  }
+  return loaded;
+}
+
+// Theme with brand colours and fonts layered on top
+export function applyBrand(theme: Theme, brand: BrandKit, loadedFonts: string[]): Theme {
+  const family = (name: string | null, fallback: string) =>
+    name && loadedFonts.includes(name) ? `"${name}", ${FONT_FALLBACK}` : fallback;
+  return {
+    ...theme,
+    fonts: {
+      heading: family(brand.headingFont, theme.fonts.heading),
+      body: family(brand.bodyFont, theme.fonts.body),
+    },
+    colors: {
+      ...theme.colors,
+      ...(brand.primary ? { priceFrom: shade(brand.primary, -0.55), priceTo: brand.primary } : {}),
+      ...(brand.accent ? { cta: brand.accent } : {}),
+    },
+  };
+}
+
+// Lighten (amount > 0) or darken (amount < 0) a #rrggbb colour
+export function shade(hex: string, amount: number) {
+  const m = /^#?([0-9a-f]{6})$/i.exec(hex.trim());
+  if (!m) return hex;
+  const n = parseInt(m[1], 16);
+  const ch = (v: number) => {
+    const out = amount < 0 ? v * (1 + amount) : v + (255 - v) * amount;
+    return Math.max(0, Math.min(255, Math.round(out))).toString(16).padStart(2, "0");
+  };
+  return `#${ch(n >> 16)}${ch((n >> 8) & 0xff)}${ch(n & 0xff)}`;
+}
+
+// Logo placement: a corner watermark, or centred above the copy
+export function logoRect(
+  W: number,
+  H: number,
+  logoW: number,
+  logoH: number,
+  brand: Pick<BrandKit, "logoCorner" | "logoScale">,
+  placement: "corner" | "center",
+) {
+  const scale = placement === "center" ? brand.logoScale * 1.8 : brand.logoScale;
+  const w = W * scale;
+  const h = w * (logoH / logoW);
+  if (placement === "center") return { x: (W - w) / 2, y: H * 0.28 - h / 2, w, h };
+  const margin = Math.min(W, H) * 0.04;
+  const right = brand.logoCorner.endsWith("right");
+  const bottom = brand.logoCorner.startsWith("bottom");
+  return {
+    x: right ? W - margin - w : margin,
+    y: bottom ? H - margin - h : margin,
+    w,
+    h,
+  };
+}
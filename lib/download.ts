@@ -0,0 +1,13 @@
+// Saves generated files through a temporary link. The object URL is revoked
+// a while later: revoking right after click() can cancel the download.
+
+const REVOKE_DELAY_MS = 60_000;
+
+export function downloadBlob(blob: Blob, name: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+}
@@ -0,0 +1,19 @@
+// Named easing curves, selectable in the editor and stored by name.
+import { easeInOutCubic } from "@/lib/transitions";
+
+export type EasingName = "linear" | "easeOut" | "easeInOut" | "easeOutBack" | "easeOutExpo";
+
+export const EASINGS: Record<EasingName, (t: number) => number> = {
+  linear: (t) => t,
+  easeOut: (t) => 1 - (1 - t) ** 3,
+  easeInOut: easeInOutCubic,
+  easeOutBack: (t) => {
+    const c = 1.70158;
+    return 1 + (c + 1) * (t - 1) ** 3 + c * (t - 1) ** 2;
+  },
+  easeOutExpo: (t) => (t >= 1 ? 1 : 1 - 2 ** (-10 * t)),
+};
+
+export function ease(name: EasingName, t: number) {
+  return (EASINGS[name] ?? EASINGS.linear)(Math.max(0, Math.min(1, t)));
+}
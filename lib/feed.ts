@@ -0,0 +1,195 @@
+// Product feeds for bulk generation: CSV / JSON parsing, column mapping onto
+// the copy fields and images, and per-row project variants.
+import { newAssetId, type Asset } from "@/lib/assets";
+import type { ProjectState } from "@/lib/project";
+import { syncImageScenes, type Timeline, type TimelineScene } from "@/lib/timeline";
+
+export type FeedRow = Record<string, string>;
+
+export interface Feed {
+  columns: string[];
+  rows: FeedRow[];
+}
+
+export type FeedField = "productName" | "tagline" | "features" | "price" | "cta" | "images";
+
+export const FEED_FIELDS: { field: FeedField; label: string }[] = [
+  { field: "productName", label: "Product name" },
+  { field: "tagline", label: "Tagline" },
+  { field: "features", label: "Features" },
+  { field: "price", label: "Price" },
+  { field: "cta", label: "CTA" },
+  { field: "images", label: "Images" },
+];
+
+// Column per field; unmapped fields keep the editor's value
+export type FeedMapping = Partial<Record<FeedField, string>>;
+
+// Separators inside one cell for list fields (features, images)
+const LIST_SEPARATOR = /\s*[|\n;]\s*/;
+
+// RFC 4180 CSV: quoted fields, doubled quotes, CRLF. The delimiter is the
+// first of , ; or tab found in the header line.
+export function parseCsv(text: string): string[][] {
+  const src = text.replace(/^\uFEFF/, "");
+  const header = src.slice(0, src.search(/\r?\n|$/));
+  const delimiter = [",", ";", "\t"].map(d => ({ d, n: header.split(d).length })).sort((a, b) => b.n - a.n)[0].d;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i];
+    if (quoted) {
+      if (c === '"' && src[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"' && field === "") {
+      quoted = true;
+    } else if (c === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && src[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  if (field !== "" || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(f => f.trim() !== ""));
+}
+
+function cell(v: unknown): string {
+  if (v == null) return "";
+  if (Array.isArray(v)) return v.map(cell).join("|");
+  if (typeof v === "object") return JSON.stringify(v);
+  return String(v);
+}
+
+// A CSV file, or JSON holding an array of objects (directly or as the first
+// array-valued property, e.g. { "products": [...] })
+export function parseFeed(text: string, fileName = ""): Feed {
+  const trimmed = text.trim();
+  if (/\.json$/i.test(fileName) || trimmed.startsWith("[") || trimmed.startsWith("{")) {
+    const data = JSON.parse(trimmed);
+    const list = Array.isArray(data) ? data : Object.values(data ?? {}).find(Array.isArray);
+    if (!Array.isArray(list)) throw new Error("JSON feed must be an array of products");
+    const items = list.filter((x): x is Record<string, unknown> => !!x && typeof x === "object" && !Array.isArray(x));
+    const columns = [...new Set(items.flatMap(Object.keys))];
+    return { columns, rows: items.map(item => Object.fromEntries(columns.map(c => [c, cell(item[c])]))) };
+  }
+  const [header, ...body] = parseCsv(text);
+  if (!header) throw new Error("Feed is empty");
+  const columns = header.map((h, i) => h.trim() || `column ${i + 1}`);
+  return { columns, rows: body.map(r => Object.fromEntries(columns.map((c, i) => [c, r[i]?.trim() ?? ""]))) };
+}
+
+const GUESSES: Record<FeedField, RegExp> = {
+  productName: /^(product[ _-]?)?(name|title)$|^product$/i,
+  tagline: /tagline|subtitle|headline|slogan/i,
+  features: /feature|bullet|highlight|benefit/i,
+  price: /price|amount|cost/i,
+  cta: /^cta$|call[ _-]?to[ _-]?action|button/i,
+  images: /image|photo|picture|img|media/i,
+};
+
+export function guessMapping(columns: string[]): FeedMapping {
+  const mapping: FeedMapping = {};
+  for (const { field } of FEED_FIELDS) {
+    const col = columns.find(c => GUESSES[field].test(c.trim()));
+    if (col) mapping[field] = col;
+  }
+  return mapping;
+}
+
+export function splitList(value: string) {
+  return value.split(LIST_SEPARATOR).map(s => s.trim()).filter(Boolean);
+}
+
+// Image references of a row: file names of bundled assets or URLs
+export function rowImageRefs(row: FeedRow, mapping: FeedMapping) {
+  return mapping.images ? splitList(row[mapping.images] ?? "") : [];
+}
+
+// Resolve image references against bundled files (by name, case-insensitive)
+// or fetch them by URL; the server must allow cross-origin reads
+export async function resolveRowImages(refs: string[], library: File[]): Promise<File[]> {
+  const byName = new Map(library.map(f => [f.name.toLowerCase(), f]));
+  const out: File[] = [];
+  for (const ref of refs) {
+    const local = byName.get(ref.toLowerCase()) ?? byName.get(ref.split(/[\\/]/).pop()!.toLowerCase());
+    if (local) {
+      out.push(local);
+      continue;
+    }
+    if (!/^https?:\/\//i.test(ref)) throw new Error(`Image not found: ${ref}`);
+    const res = await fetch(ref);
+    if (!res.ok) throw new Error(`Could not fetch ${ref} (${res.status})`);
+    const blob = await res.blob();
+    const name = decodeURIComponent(new URL(ref).pathname.split("/").pop() || "image");
+    out.push(new File([blob], name, { type: blob.type || "image/jpeg" }));
+  }
+  return out;
+}
+
+// Point the existing image scenes at new assets in order, dropping surplus
+// scenes and adding scenes for extra assets
+export function retargetImageScenes(timeline: Timeline, assetIds: string[]): Timeline {
+  let k = 0;
+  const scenes = timeline.scenes.flatMap((s): TimelineScene[] => {
+    if (s.kind !== "image") return [s];
+    const assetId = assetIds[k++];
+    return assetId ? [{ ...s, params: { ...s.params, assetId } }] : [];
+  });
+  return syncImageScenes({ ...timeline, scenes }, assetIds);
+}
+
+// Grid and comparison scenes keep their slots: the n-th tray asset becomes
+// the row's n-th image, wrapping when the row has fewer
+function remapSceneAssets(timeline: Timeline, from: string[], to: string[]): Timeline {
+  const swap = (id: string) => {
+    const i = from.indexOf(id);
+    return i < 0 ? id : to[i % to.length];
+  };
+  const scenes = timeline.scenes.map((s): TimelineScene => {
+    if (s.kind === "grid") return { ...s, params: { ...s.params, assetIds: s.params.assetIds.map(swap) } };
+    if (s.kind === "compare") return { ...s, params: { ...s.params, beforeId: swap(s.params.beforeId), afterId: swap(s.params.afterId) } };
+    return s;
+  });
+  return { ...timeline, scenes };
+}
+
+// The editor project with one feed row's copy and images swapped in. Without
+// mapped images the row keeps the project's own assets.
+export function applyFeedRow(base: ProjectState, row: FeedRow, mapping: FeedMapping, images: File[]): ProjectState {
+  const value = (field: FeedField) => (mapping[field] ? row[mapping[field]!] : undefined);
+  const next: ProjectState = {
+    ...base,
+    productName: value("productName") ?? base.productName,
+    tagline: value("tagline") ?? base.tagline,
+    features: value("features") !== undefined ? splitList(value("features")!) : base.features,
+    price: value("price") ?? base.price,
+    cta: value("cta") ?? base.cta,
+  };
+  if (!images.length) return next;
+  const assets: Asset[] = images.map(file => ({ id: newAssetId(), file, fingerprint: "" }));
+  const ids = assets.map(a => a.id);
+  const timeline = remapSceneAssets(base.timeline, base.assets.map(a => a.id), ids);
+  return { ...next, assets, timeline: retargetImageScenes(timeline, ids) };
+}
+
+// Output file name from a template with {column} placeholders and {#} for
+// the 1-based row number
+export function outputName(template: string, row: FeedRow, index: number) {
+  const name = template
+    .replace(/\{#\}/g, String(index + 1))
+    .replace(/\{([^}]+)\}/g, (_, col: string) => row[col.trim()] ?? "");
+  return name.replace(/[^\w.-]+/g, "-").replace(/-+/g, "-").replace(/^-|-$/g, "").slice(0, 120) || `row-${index + 1}`;
+}
@@ -0,0 +1,242 @@
+// Server-side rendering: the shared frame renderer on a skia-canvas surface,
+// with raw frames piped into a local ffmpeg that encodes H.264/AAC MP4.
+// Node only; never import this from client components.
+import { spawn } from "node:child_process";
+import { createHash } from "node:crypto";
+import { once } from "node:events";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { Canvas, FontLibrary, loadImage } from "skia-canvas";
+import { duckRegions, fadeWindows, type AudioMix } from "@/lib/audio";
+import { detectBeats } from "@/lib/beats";
+import { applyBrand, fontFamilyName } from "@/lib/brand";
+import type { FocalPoint } from "@/lib/kenburns";
+import { localize, priceLabels } from "@/lib/locale";
+import { fromProject, timelineForRender, type Project } from "@/lib/project";
+import { OUTPUT_PRESETS, previewSize } from "@/lib/render";
+import { createRenderer, type Canvas2D, type FrameMedia } from "@/lib/renderer";
+import { findFocalPoint } from "@/lib/saliency";
+import { mergeCues, scriptCues, toSrt } from "@/lib/subtitles";
+import { findTheme } from "@/lib/themes";
+import { timelineDuration, type ScheduledScene } from "@/lib/timeline";
+import type { Layer } from "@/lib/transitions";
+
+export interface HeadlessRenderOptions {
+  // OUTPUT_PRESETS id; defaults to the project's aspect ratio at 1080p
+  preset?: string;
+  // One of the project's locale variants; defaults to its base copy
+  locale?: string;
+  ffmpegPath?: string;
+  onProgress?: (p: number) => void;
+}
+
+// Lines of ffmpeg stderr kept for error messages
+const STDERR_TAIL = 20;
+// Beat detection rate, as in the editor
+const BEAT_SAMPLE_RATE = 22_050;
+
+// skia-canvas implements the Canvas2D API under its own types
+const makeLayer = (w: number, h: number) => new Canvas(w, h) as unknown as Layer;
+
+export async function renderProjectMp4(project: Project, files: Map<string, Blob>, opts: HeadlessRenderOptions = {}) {
+  const base = fromProject(project, files);
+  if (opts.locale && opts.locale !== base.locale && !base.locales.some(l => l.locale === opts.locale)) {
+    throw new Error(`The project has no ${opts.locale} variant`);
+  }
+  const state = localize(base, opts.locale ?? null);
+  const prices = priceLabels(state);
+  const preset = opts.preset ? OUTPUT_PRESETS.find(p => p.id === opts.preset) : undefined;
+  if (opts.preset && !preset) throw new Error(`Unknown output preset ${opts.preset}`);
+  if (preset && preset.ratio !== state.ratio) throw new Error(`Preset ${preset.id} does not match the project's ${state.ratio} ratio`);
+  const { width, height } = preset ?? previewSize(state.ratio);
+  const { fps, bitrate } = state.exportSettings;
+  const ffmpegPath = opts.ffmpegPath ?? process.env.FFMPEG_PATH ?? "ffmpeg";
+
+  const dir = await mkdtemp(path.join(tmpdir(), "cineforge-"));
+  try {
+    const aliases = new Map<string, string>();
+    for (const font of state.brand.fonts) aliases.set(fontFamilyName(font), await registerFont(font));
+    const alias = (name: string | null) => name && (aliases.get(name) ?? name);
+    const brand = { ...state.brand, headingFont: alias(state.brand.headingFont), bodyFont: alias(state.brand.bodyFont) };
+    const theme = applyBrand(state.theme ?? findTheme(state.themeId, []), brand, [...aliases.values()]);
+
+    const media = new Map<string, FrameMedia | null>();
+    const focalPoints = new Map<string, FocalPoint>();
+    for (const asset of state.assets) {
+      if (!asset.file.type.startsWith("image/")) {
+        throw new Error(`${asset.file.name}: video clips cannot be rendered on the server yet`);
+      }
+      const img = await loadImage(Buffer.from(await asset.file.arrayBuffer()));
+      const m = { source: img as unknown as CanvasImageSource, width: img.width, height: img.height };
+      media.set(asset.id, m);
+      if (asset.framing?.auto) focalPoints.set(asset.id, findFocalPoint(m.source as CanvasImageSource & { width: number; height: number }, makeLayer));
+    }
+    const logoImg = state.brand.logo ? await loadImage(Buffer.from(await state.brand.logo.arrayBuffer())) : null;
+
+    let music: string | null = null;
+    if (state.audioFile) {
+      music = path.join(dir, `music${path.extname(state.audioFile.name)}`);
+      await writeFile(music, Buffer.from(await state.audioFile.arrayBuffer()));
+    }
+
+    // Same timeline as the editor plays: duration overrides and beat sync
+    const beatsMs = music && state.beatSync
+      ? detectBeats(await decodeMono(ffmpegPath, music, BEAT_SAMPLE_RATE), BEAT_SAMPLE_RATE).beatsMs
+      : null;
+    const timeline = timelineForRender(state, beatsMs);
+    const voiceOverCues = scriptCues(state.voiceOver.script, timelineDuration(timeline));
+    const renderer = createRenderer({
+      timeline,
+      assets: state.assets,
+      media,
+      focalPoints,
+      productName: state.productName,
+      tagline: state.tagline,
+      features: state.features,
+      price: prices.price,
+      compareAtPrice: prices.compareAt,
+      cta: state.cta,
+      locale: state.locale,
+      theme,
+      brand: state.brand,
+      logo: logoImg && { source: logoImg as unknown as CanvasImageSource, width: logoImg.width, height: logoImg.height },
+      animations: state.animations,
+      burnedCaptions: state.voiceOver.burnIn ? voiceOverCues : undefined,
+    }, { createLayer: makeLayer });
+    if (renderer.durationMs <= 0) throw new Error("The project's timeline is empty");
+
+    // Subtitle track as tx3g (mov_text), from an SRT written next to the music
+    let subtitles: string | null = null;
+    const cues = mergeCues(renderer.textCues(), voiceOverCues);
+    if (state.exportSettings.subtitles && cues.length) {
+      subtitles = path.join(dir, "subtitles.srt");
+      await writeFile(subtitles, toSrt(cues));
+    }
+
+    const out = path.join(dir, "out.mp4");
+    const subtitleInput = music ? 2 : 1;
+    const args = [
+      "-hide_banner", "-loglevel", "error", "-y",
+      "-f", "rawvideo", "-pix_fmt", "rgba", "-s", `${width}x${height}`, "-r", String(fps), "-i", "pipe:0",
+      ...(music ? ["-i", music] : []),
+      ...(subtitles ? ["-i", subtitles] : []),
+      "-map", "0:v",
+      ...(music ? [
+        "-filter_complex", `[1:a]${musicFilter(state.audioMix, renderer.schedule, renderer.durationMs)}[music]`,
+        "-map", "[music]", "-c:a", "aac", "-b:a", "192k",
+      ] : []),
+      ...(subtitles ? ["-map", `${subtitleInput}:s`, "-c:s", "mov_text", "-metadata:s:s:0", `language=${iso639(state.locale)}`] : []),
+      "-c:v", "libx264", "-preset", "veryfast", "-pix_fmt", "yuv420p", "-b:v", String(bitrate),
+      "-movflags", "+faststart",
+      out,
+    ];
+    const ffmpeg = spawn(ffmpegPath, args, { stdio: ["pipe", "ignore", "pipe"] });
+    const stderr: string[] = [];
+    ffmpeg.stderr.setEncoding("utf8");
+    ffmpeg.stderr.on("data", (chunk: string) => {
+      stderr.push(...chunk.split("\n").filter(Boolean));
+      stderr.splice(0, Math.max(0, stderr.length - STDERR_TAIL));
+    });
+    const exited = new Promise<number | null>((resolve, reject) => {
+      ffmpeg.on("error", (e) => reject(new Error(`Could not start ffmpeg: ${e.message}`)));
+      ffmpeg.on("close", resolve);
+    });
+    exited.catch(() => {});
+    // A dead ffmpeg surfaces through its exit code, not through the pipe
+    ffmpeg.stdin.on("error", () => {});
+
+    const canvas = new Canvas(width, height);
+    const ctx = canvas.getContext("2d") as unknown as Canvas2D;
+    const frameCount = Math.max(1, Math.ceil(renderer.durationMs * fps / 1000));
+    for (let i = 0; i < frameCount && ffmpeg.exitCode === null; i++) {
+      renderer.drawFrame(ctx, Math.min(i * 1000 / fps, renderer.durationMs - 1));
+      const { data } = ctx.getImageData(0, 0, width, height);
+      if (!ffmpeg.stdin.write(Buffer.from(data.buffer, data.byteOffset, data.byteLength))) {
+        await Promise.race([once(ffmpeg.stdin, "drain"), exited]);
+      }
+      opts.onProgress?.((i + 1) / frameCount);
+    }
+    ffmpeg.stdin.end();
+
+    const code = await exited;
+    if (code !== 0) throw new Error(`ffmpeg failed (${code}): ${stderr.join(" | ") || "no output"}`);
+    return await readFile(out);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+// Brand fonts must exist on disk for the font library, and registrations are
+// process-wide and can't be undone. So each distinct file is registered once,
+// by content hash under a family name of its own, and reused by later renders.
+const FONT_DIR = path.join(tmpdir(), "cineforge-fonts");
+const fontAliases = new Map<string, Promise<string>>();
+
+async function registerFont(font: File) {
+  const data = Buffer.from(await font.arrayBuffer());
+  const hash = createHash("sha256").update(data).digest("hex").slice(0, 16);
+  let alias = fontAliases.get(hash);
+  if (!alias) {
+    alias = (async () => {
+      await mkdir(FONT_DIR, { recursive: true });
+      const file = path.join(FONT_DIR, `${hash}${path.extname(font.name)}`);
+      await writeFile(file, data);
+      FontLibrary.use(`Brand ${hash}`, [file]);
+      return `Brand ${hash}`;
+    })();
+    fontAliases.set(hash, alias);
+    // A failed registration is retried by the next render
+    alias.catch(() => fontAliases.delete(hash));
+  }
+  return alias;
+}
+
+// Mono float samples of an audio file, decoded by ffmpeg
+async function decodeMono(ffmpegPath: string, file: string, sampleRate: number) {
+  const args = ["-hide_banner", "-loglevel", "error", "-i", file, "-ac", "1", "-ar", String(sampleRate), "-f", "f32le", "pipe:1"];
+  const ffmpeg = spawn(ffmpegPath, args, { stdio: ["ignore", "pipe", "pipe"] });
+  const chunks: Buffer[] = [];
+  const stderr: string[] = [];
+  ffmpeg.stdout.on("data", (chunk: Buffer) => chunks.push(chunk));
+  ffmpeg.stderr.setEncoding("utf8");
+  ffmpeg.stderr.on("data", (chunk: string) => {
+    stderr.push(...chunk.split("\n").filter(Boolean));
+    stderr.splice(0, Math.max(0, stderr.length - STDERR_TAIL));
+  });
+  const code = await new Promise<number | null>((resolve, reject) => {
+    ffmpeg.on("error", (e) => reject(new Error(`Could not start ffmpeg: ${e.message}`)));
+    ffmpeg.on("close", resolve);
+  });
+  if (code !== 0) throw new Error(`ffmpeg could not decode the music (${code}): ${stderr.join(" | ") || "no output"}`);
+  const bytes = Buffer.concat(chunks);
+  // Copy into a fresh buffer: pooled Buffers need not be 4-byte aligned
+  return new Float32Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength - bytes.byteLength % 4));
+}
+
+// MP4 language tags are ISO 639-2; ffmpeg maps the common 639-1 codes
+function iso639(locale: string) {
+  return locale.split("-")[0].toLowerCase();
+}
+
+// ffmpeg filter chain matching renderAudioMix: offset, trim, volume, fades
+// and ducking (switched rather than ramped)
+export function musicFilter(mix: AudioMix, schedule: ScheduledScene[], durationMs: number) {
+  const s = (ms: number) => (ms / 1000).toFixed(3);
+  const playMs = Math.min(durationMs, mix.trimMs ?? Infinity);
+  const { fadeInMs, fadeOutMs } = fadeWindows(schedule, playMs);
+  const offset = Math.max(0, mix.offsetMs);
+  const level = Math.max(0, Math.min(1, mix.duckLevel));
+  const steps = [
+    `atrim=start=${s(offset)}:end=${s(offset + playMs)}`,
+    "asetpts=PTS-STARTPTS",
+    `volume=${mix.volume}`,
+    ...(mix.fadeIn ? [`afade=t=in:st=0:d=${s(fadeInMs)}`] : []),
+    ...(mix.fadeOut ? [`afade=t=out:st=${s(Math.max(0, playMs - fadeOutMs))}:d=${s(fadeOutMs)}`] : []),
+    ...duckRegions(schedule, mix.duckScenes).map(([a, b]) => `volume=${level}:enable='between(t,${s(a)},${s(b)})'`),
+    // Silence after a trimmed track, up to the video's length
+    "apad",
+    `atrim=end=${s(durationMs)}`,
+  ];
+  return steps.join(",");
+}
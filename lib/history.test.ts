@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { MAX_HISTORY, MERGE_WINDOW_MS, createHistory, execute, redo, undo } from "@/lib/history";
+
+interface Doc {
+  title: string;
+  count: number;
+}
+
+const start = () => createHistory<Doc>({ title: "", count: 0 });
+
+describe("execute", () => {
+  it("records the changed fields only", () => {
+    const h = execute(start(), { title: "a", count: 0 }, { now: 0 });
+    expect(h.present).toEqual({ title: "a", count: 0 });
+    expect(h.past).toHaveLength(1);
+    expect(h.past[0].before).toEqual({ title: "" });
+    expect(h.past[0].after).toEqual({ title: "a" });
+  });
+
+  it("ignores patches that change nothing", () => {
+    const h = start();
+    expect(execute(h, { count: 0 })).toBe(h);
+  });
+
+  it("merges edits to the same fields within the merge window", () => {
+    let h = execute(start(), { title: "a" }, { merge: true, now: 0 });
+    h = execute(h, { title: "ab" }, { merge: true, now: 400 });
+    h = execute(h, { title: "abc" }, { merge: true, now: 400 + MERGE_WINDOW_MS - 1 });
+    expect(h.past).toHaveLength(1);
+    expect(undo(h).present.title).toBe("");
+  });
+
+  it("starts a new step once the window has passed", () => {
+    let h = execute(start(), { title: "a" }, { merge: true, now: 0 });
+    h = execute(h, { title: "ab" }, { merge: true, now: MERGE_WINDOW_MS });
+    expect(h.past).toHaveLength(2);
+    expect(undo(h).present.title).toBe("a");
+  });
+
+  it("never merges structural edits or edits to other fields", () => {
+    let h = execute(start(), { count: 1 }, { now: 0 });
+    h = execute(h, { count: 2 }, { now: 10 });
+    h = execute(h, { title: "a" }, { merge: true, now: 20 });
+    h = execute(h, { count: 3 }, { merge: true, now: 30 });
+    expect(h.past).toHaveLength(4);
+  });
+
+  it("keeps at most MAX_HISTORY steps", () => {
+    let h = start();
+    for (let i = 1; i <= MAX_HISTORY + 5; i++) h = execute(h, { count: i }, { now: i });
+    expect(h.past).toHaveLength(MAX_HISTORY);
+    // The oldest steps are the ones dropped
+    expect(h.past[0].before).toEqual({ count: 5 });
+  });
+});
+
+describe("undo and redo", () => {
+  it("step back and forth through the edits", () => {
+    let h = execute(start(), { title: "a" }, { now: 0 });
+    h = execute(h, { count: 1 }, { now: 10 });
+    h = undo(undo(h));
+    expect(h.present).toEqual({ title: "", count: 0 });
+    h = redo(h);
+    expect(h.present).toEqual({ title: "a", count: 0 });
+    expect(h.future).toHaveLength(1);
+  });
+
+  it("clears the redo stack on a new edit", () => {
+    let h = execute(start(), { title: "a" }, { now: 0 });
+    h = execute(undo(h), { count: 1 }, { now: 10 });
+    expect(h.future).toEqual([]);
+    expect(redo(h)).toBe(h);
+  });
+
+  it("does not merge a redone step with the next edit", () => {
+    let h = execute(start(), { title: "a" }, { merge: true, now: 0 });
+    h = redo(undo(h));
+    h = execute(h, { title: "ab" }, { merge: true, now: 10 });
+    expect(h.past).toHaveLength(2);
+  });
+});
@@ -0,0 +1,76 @@
+// Undo/redo over an immutable document. Each command stores only the fields
+// it changed, before and after; unchanged values (File blobs, bitmaps) are
+// shared by reference, so history costs little beyond the edited fields.
+
+export interface Command<T> {
+  before: Partial<T>;
+  after: Partial<T>;
+  // Commands with the same key merge while edits keep coming
+  mergeKey: string | null;
+  at: number;
+}
+
+export interface History<T> {
+  present: T;
+  past: Command<T>[];
+  future: Command<T>[];
+}
+
+export const MAX_HISTORY = 100;
+export const MERGE_WINDOW_MS = 1000;
+
+export function createHistory<T>(present: T): History<T> {
+  return { present, past: [], future: [] };
+}
+
+export interface ExecuteOptions {
+  // Fold into the previous step if it edited the same fields moments ago
+  merge?: boolean;
+  now?: number;
+}
+
+export function execute<T extends object>(
+  history: History<T>,
+  patch: Partial<T> | ((present: T) => Partial<T>),
+  { merge = false, now = Date.now() }: ExecuteOptions = {},
+): History<T> {
+  const { present, past } = history;
+  const after = typeof patch === "function" ? patch(present) : patch;
+  const keys = (Object.keys(after) as (keyof T)[]).filter(k => !Object.is(present[k], after[k]));
+  if (keys.length === 0) return history;
+
+  const before: Partial<T> = {};
+  const changed: Partial<T> = {};
+  for (const k of keys) {
+    before[k] = present[k];
+    changed[k] = after[k];
+  }
+  const mergeKey = merge ? keys.map(String).sort().join(",") : null;
+  const next = { ...present, ...changed };
+
+  const last = past[past.length - 1];
+  if (mergeKey && last && last.mergeKey === mergeKey && history.future.length === 0 && now - last.at < MERGE_WINDOW_MS) {
+    const merged = { ...last, after: { ...last.after, ...changed }, at: now };
+    return { present: next, past: [...past.slice(0, -1), merged], future: [] };
+  }
+
+  const cmd: Command<T> = { before, after: changed, mergeKey, at: now };
+  return { present: next, past: [...past, cmd].slice(-MAX_HISTORY), future: [] };
+}
+
+export function undo<T>(history: History<T>): History<T> {
+  const cmd = history.past[history.past.length - 1];
+  if (!cmd) return history;
+  return {
+    present: { ...history.present, ...cmd.before },
+    past: history.past.slice(0, -1),
+    // A redone step never merges with the next edit
+    future: [{ ...cmd, mergeKey: null }, ...history.future],
+  };
+}
+
+export function redo<T>(history: History<T>): History<T> {
+  const [cmd, ...future] = history.future;
+  if (!cmd) return history;
+  return { present: { ...history.present, ...cmd.after }, past: [...history.past, cmd], future };
+}
@@ -0,0 +1,108 @@
+import { ease, type EasingName } from "@/lib/easing";
+
+export function lerp(a: number, b: number, t: number) {
+  return a + (b - a) * t;
+}
+
+// Largest "cover" placement of a source inside a destination box
+export function fitCover(srcW: number, srcH: number, dstW: number, dstH: number) {
+  const scale = Math.max(dstW / srcW, dstH / srcH);
+  const w = srcW * scale;
+  const h = srcH * scale;
+  return { x: (dstW - w) / 2, y: (dstH - h) / 2, w, h };
+}
+
+export interface KenBurnsPath {
+  startScale: number;
+  endScale: number;
+  startX: number;
+  endX: number;
+  startY: number;
+  endY: number;
+}
+
+// Canned pan/zoom moves, cycled by image index
+const PATHS: KenBurnsPath[] = [
+  { startScale: 1.05, endScale: 1.18, startX: 0.5, endX: 0.42, startY: 0.5, endY: 0.46 },
+  { startScale: 1.2, endScale: 1.06, startX: 0.35, endX: 0.6, startY: 0.5, endY: 0.5 },
+  { startScale: 1.08, endScale: 1.22, startX: 0.6, endX: 0.5, startY: 0.4, endY: 0.58 },
+  { startScale: 1.18, endScale: 1.08, startX: 0.5, endX: 0.5, startY: 0.62, endY: 0.4 },
+];
+
+export function kenBurnsPath(index: number): KenBurnsPath {
+  return PATHS[((index % PATHS.length) + PATHS.length) % PATHS.length];
+}
+
+// --- Per-image framing ---
+
+export interface FocalPoint {
+  // Fractions of the source image
+  x: number;
+  y: number;
+}
+
+// One end of a move: crop centre as fractions of the source, and zoom over
+// the largest crop of the output aspect (1 = full cover crop)
+export interface FrameKey {
+  cx: number;
+  cy: number;
+  zoom: number;
+}
+
+export interface Framing {
+  // Derive the focal point from image saliency instead of `focus`
+  auto: boolean;
+  focus: FocalPoint;
+  start: FrameKey;
+  end: FrameKey;
+  easing: EasingName;
+}
+
+export const MAX_ZOOM = 2.5;
+
+// Framing equivalent to the canned path for an image index
+export function pathFraming(index: number): Framing {
+  const p = kenBurnsPath(index);
+  // Centre of the visible window within a cover fit scaled by s and panned by pan
+  const key = (s: number, panX: number, panY: number): FrameKey => ({
+    cx: 1 / (2 * s) + ((s - 1) * panX) / s,
+    cy: 1 / (2 * s) + ((s - 1) * panY) / s,
+    zoom: s,
+  });
+  return {
+    auto: false,
+    focus: { x: 0.5, y: 0.5 },
+    start: key(p.startScale, p.startX, p.startY),
+    end: key(p.endScale, p.endX, p.endY),
+    easing: "linear",
+  };
+}
+
+// Re-centre both ends of the move on a focal point
+export function withFocus(framing: Framing, focus: FocalPoint): Framing {
+  return {
+    ...framing,
+    focus,
+    start: { ...framing.start, cx: focus.x, cy: focus.y },
+    end: { ...framing.end, cx: focus.x, cy: focus.y },
+  };
+}
+
+// Source rect (px) for a key at output aspect (width / height), kept inside the image
+export function cropRect(key: FrameKey, srcW: number, srcH: number, aspect: number) {
+  const coverW = Math.min(srcW, srcH * aspect);
+  const coverH = coverW / aspect;
+  const zoom = Math.max(1, Math.min(MAX_ZOOM, key.zoom));
+  const w = coverW / zoom, h = coverH / zoom;
+  const x = Math.max(0, Math.min(srcW - w, key.cx * srcW - w / 2));
+  const y = Math.max(0, Math.min(srcH - h, key.cy * srcH - h / 2));
+  return { x, y, w, h };
+}
+
+// Source rect at progress t (0..1) through the scene
+export function framingRect(framing: Framing, t: number, srcW: number, srcH: number, aspect: number) {
+  const e = ease(framing.easing, t);
+  const a = cropRect(framing.start, srcW, srcH, aspect);
+  const b = cropRect(framing.end, srcW, srcH, aspect);
+  return { x: lerp(a.x, b.x, e), y: lerp(a.y, b.y, e), w: lerp(a.w, b.w, e), h: lerp(a.h, b.h, e) };
+}
@@ -0,0 +1,94 @@
+// Locale variants: translated copy per market, Intl-formatted prices and
+// text direction. The project's own fields are the base locale; a variant
+// only overrides what it sets.
+import type { ProjectState } from "@/lib/project";
+import type { TextDirection } from "@/lib/textlayout";
+
+export interface Pricing {
+  // Unset amount renders the free-text price instead
+  amount: number | null;
+  // Regular price shown struck through next to a sale amount
+  compareAt: number | null;
+  // ISO 4217 code
+  currency: string;
+}
+
+export const DEFAULT_PRICING: Pricing = { amount: null, compareAt: null, currency: "USD" };
+
+export const TRANSLATED_FIELDS = ["productName", "tagline", "features", "price", "cta"] as const;
+export type TranslatedField = typeof TRANSLATED_FIELDS[number];
+
+export type LocaleVariant = Partial<Pick<ProjectState, TranslatedField>> & {
+  // BCP 47 tag, e.g. "de-DE"
+  locale: string;
+  pricing?: Partial<Pricing>;
+};
+
+export const DEFAULT_LOCALE = "en-US";
+
+// Offered in the editor; any valid BCP 47 tag works
+export const COMMON_LOCALES = [
+  "en-US", "en-GB", "de-DE", "fr-FR", "es-ES", "it-IT", "nl-NL", "pt-BR", "pl-PL", "tr-TR",
+  "ar-SA", "he-IL", "fa-IR", "ja-JP", "zh-CN", "zh-TW", "ko-KR", "hi-IN",
+];
+
+export const COMMON_CURRENCIES = ["USD", "EUR", "GBP", "JPY", "CNY", "KRW", "INR", "BRL", "PLN", "TRY", "SAR", "ILS", "AED", "CAD", "AUD", "CHF"];
+
+const RTL_LANGUAGES = new Set(["ar", "he", "iw", "fa", "ur", "ps", "sd", "yi", "dv", "ug", "ckb"]);
+
+export function isValidLocale(tag: string) {
+  try {
+    return Intl.getCanonicalLocales(tag).length === 1;
+  } catch {
+    return false;
+  }
+}
+
+export function textDirection(locale: string): TextDirection {
+  const lang = locale.split(/[-_]/)[0].toLowerCase();
+  return RTL_LANGUAGES.has(lang) ? "rtl" : "ltr";
+}
+
+export function formatPrice(amount: number, currency: string, locale: string) {
+  try {
+    // Whole amounts drop the decimals ("€129", not "€129.00")
+    const whole = Number.isInteger(amount) ? { minimumFractionDigits: 0, maximumFractionDigits: 0 } : {};
+    return new Intl.NumberFormat(locale, { style: "currency", currency, ...whole }).format(amount);
+  } catch {
+    return `${amount} ${currency}`;
+  }
+}
+
+// Short unit name in a locale, e.g. "hr" or "Std.", in the plural form for
+// count, for the countdown card
+export function unitLabel(locale: string, unit: string, count: number) {
+  try {
+    const parts = new Intl.NumberFormat(locale, { style: "unit", unit, unitDisplay: "short" }).formatToParts(count);
+    return parts.filter(p => p.type === "unit").map(p => p.value).join("").trim() || unit;
+  } catch {
+    return unit;
+  }
+}
+
+// Price scene text: the formatted amount (or free text) and the struck-through
+// regular price, when it is a sale
+export function priceLabels(state: Pick<ProjectState, "price" | "pricing" | "locale">) {
+  const { amount, compareAt, currency } = state.pricing;
+  if (amount === null) return { price: state.price, compareAt: null };
+  return {
+    price: formatPrice(amount, currency, state.locale),
+    compareAt: compareAt !== null && compareAt > amount ? formatPrice(compareAt, currency, state.locale) : null,
+  };
+}
+
+const defined = <T extends object>(o: T) => Object.fromEntries(Object.entries(o).filter(([, v]) => v !== undefined)) as Partial<T>;
+
+type Localizable = Pick<ProjectState, TranslatedField | "locale" | "pricing" | "locales">;
+
+// The project as seen in one locale; null or an unknown locale is the base
+export function localize<T extends Localizable>(state: T, locale: string | null): T {
+  const variant = locale ? state.locales.find(v => v.locale === locale) : undefined;
+  if (!variant) return state;
+  const { locale: tag, pricing, ...fields } = variant;
+  return { ...state, ...defined(fields), locale: tag, pricing: { ...state.pricing, ...defined(pricing ?? {}) } };
+}
@@ -0,0 +1,140 @@
+// Scene media: still images and video clips behind a common shape, so cover
+// fitting, framing and captions treat both the same way.
+
+export interface ClipSettings {
+  // Trim points inside the clip; null out plays to the end
+  inMs: number;
+  outMs: number | null;
+  // Mix the clip's own audio into the export
+  keepAudio: boolean;
+}
+
+export const DEFAULT_CLIP: ClipSettings = { inMs: 0, outMs: null, keepAudio: false };
+
+export type SceneMedia =
+  | { kind: "image"; source: ImageBitmap; width: number; height: number }
+  | { kind: "video"; source: HTMLVideoElement; width: number; height: number; durationMs: number; poster: ImageBitmap; url: string };
+
+export function isMediaFile(file: File) {
+  return file.type.startsWith("image/") || file.type.startsWith("video/");
+}
+
+export function isVideoFile(file: File | undefined) {
+  return !!file?.type.startsWith("video/");
+}
+
+export async function loadMedia(file: File): Promise<SceneMedia | null> {
+  try {
+    if (file.type.startsWith("image/")) {
+      const bmp = await createImageBitmap(file);
+      return { kind: "image", source: bmp, width: bmp.width, height: bmp.height };
+    }
+    if (!file.type.startsWith("video/")) return null;
+    const url = URL.createObjectURL(file);
+    const video = document.createElement("video");
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = "auto";
+    video.src = url;
+    try {
+      await waitForData(video);
+      await seekVideo(video, 0);
+      return {
+        kind: "video",
+        source: video,
+        width: video.videoWidth,
+        height: video.videoHeight,
+        durationMs: video.duration * 1000,
+        poster: await createImageBitmap(video),
+        url,
+      };
+    } catch (err) {
+      video.removeAttribute("src");
+      video.load();
+      URL.revokeObjectURL(url);
+      throw err;
+    }
+  } catch {
+    return null;
+  }
+}
+
+export function releaseMedia(media: SceneMedia) {
+  if (media.kind === "image") {
+    media.source.close();
+  } else {
+    media.source.pause();
+    media.source.removeAttribute("src");
+    media.source.load();
+    media.poster.close();
+    URL.revokeObjectURL(media.url);
+  }
+}
+
+// Just a still of a file: the image itself or a clip's first frame
+export async function loadStill(file: File) {
+  if (file.type.startsWith("image/")) return createImageBitmap(file).catch(() => null);
+  const m = await loadMedia(file);
+  if (!m) return null;
+  const still = await createImageBitmap(mediaStill(m));
+  releaseMedia(m);
+  return still;
+}
+
+// A still frame for analysis and for scenes that show media without motion
+export function mediaStill(media: SceneMedia) {
+  return media.kind === "image" ? media.source : media.poster;
+}
+
+// Clip time (ms) at progress prog through a scene; holds the last frame
+// once the trimmed range runs out
+export function clipTimeMs(clip: ClipSettings, clipDurationMs: number, sceneMs: number, prog: number) {
+  const out = Math.min(clipDurationMs, clip.outMs ?? Infinity);
+  const start = Math.max(0, Math.min(clip.inMs, out));
+  return Math.min(out, start + prog * sceneMs);
+}
+
+// A seek that hasn't landed by then (stalled or broken file) fails
+const SEEK_TIMEOUT_MS = 5000;
+// Likewise for a new clip's first frame
+const LOAD_TIMEOUT_MS = 10_000;
+
+// Wait until the first frame is decoded
+function waitForData(video: HTMLVideoElement, timeoutMs = LOAD_TIMEOUT_MS) {
+  if (video.readyState >= 2) return Promise.resolve();
+  return new Promise<void>((resolve, reject) => {
+    const done = (err?: Error) => {
+      clearTimeout(timer);
+      video.removeEventListener("loadeddata", onLoaded);
+      video.removeEventListener("error", onError);
+      if (err) reject(err);
+      else resolve();
+    };
+    const onLoaded = () => done();
+    const onError = () => done(new Error(video.error?.message || "Video failed to load"));
+    const timer = setTimeout(() => done(new Error("Video load timed out")), timeoutMs);
+    video.addEventListener("loadeddata", onLoaded);
+    video.addEventListener("error", onError);
+  });
+}
+
+// Seek and wait until the frame at `ms` is decoded
+export function seekVideo(video: HTMLVideoElement, ms: number, timeoutMs = SEEK_TIMEOUT_MS) {
+  const target = ms / 1000;
+  if (Math.abs(video.currentTime - target) < 0.001 && video.readyState >= 2) return Promise.resolve();
+  return new Promise<void>((resolve, reject) => {
+    const done = (err?: Error) => {
+      clearTimeout(timer);
+      video.removeEventListener("seeked", onSeeked);
+      video.removeEventListener("error", onError);
+      if (err) reject(err);
+      else resolve();
+    };
+    const onSeeked = () => done();
+    const onError = () => done(new Error(video.error?.message || "Video failed to seek"));
+    const timer = setTimeout(() => done(new Error(`Video seek to ${ms} ms timed out`)), timeoutMs);
+    video.addEventListener("seeked", onSeeked);
+    video.addEventListener("error", onError);
+    video.currentTime = target;
+  });
+}
@@ -0,0 +1,322 @@
+// Minimal in-memory MP4 (ISO BMFF) muxer for WebCodecs H.264/AAC output.
+// Writes a progressive "faststart" file: ftyp → moov → mdat.
+import type { Cue } from "@/lib/subtitles";
+
+export interface Mp4VideoTrack {
+  width: number;
+  height: number;
+}
+
+export interface Mp4AudioTrack {
+  sampleRate: number;
+  channels: number;
+}
+
+export interface Mp4MuxerOptions {
+  video: Mp4VideoTrack;
+  audio?: Mp4AudioTrack | null;
+  // Muxed as a 3GPP timed text (tx3g) subtitle track
+  subtitles?: Cue[] | null;
+}
+
+interface Sample {
+  data: Uint8Array;
+  timeUs: number;
+  durationUs: number;
+  key: boolean;
+}
+
+interface Track {
+  id: number;
+  handler: "vide" | "soun" | "sbtl";
+  timescale: number;
+  samples: Sample[];
+  sampleEntry: () => Uint8Array;
+  header: () => Uint8Array;
+  width: number;
+  height: number;
+}
+
+const VIDEO_TIMESCALE = 90_000;
+const TEXT_TIMESCALE = 1000;
+
+const HANDLER_NAMES: Record<Track["handler"], string> = {
+  vide: "VideoHandler\0",
+  soun: "SoundHandler\0",
+  sbtl: "SubtitleHandler\0",
+};
+
+export function createMp4Muxer(opts: Mp4MuxerOptions) {
+  let avcC: Uint8Array | null = null;
+  let audioConfig: Uint8Array | null = null;
+  const video: Track = {
+    id: 1,
+    handler: "vide",
+    timescale: VIDEO_TIMESCALE,
+    samples: [],
+    width: opts.video.width,
+    height: opts.video.height,
+    header: () => fullBox("vmhd", 0, 1, [u16(0), u16(0), u16(0), u16(0)]),
+    sampleEntry: () => {
+      if (!avcC) throw new Error("H.264 encoder did not provide an avcC description");
+      return box("avc1", [
+        zeros(6), u16(1),
+        zeros(16),
+        u16(opts.video.width), u16(opts.video.height),
+        u32(0x00480000), u32(0x00480000),
+        u32(0), u16(1),
+        zeros(32),
+        u16(0x0018), u16(0xffff),
+        box("avcC", [avcC]),
+      ]);
+    },
+  };
+  const audio: Track | null = opts.audio ? {
+    id: 2,
+    handler: "soun",
+    timescale: opts.audio.sampleRate,
+    samples: [],
+    width: 0,
+    height: 0,
+    header: () => fullBox("smhd", 0, 0, [u16(0), u16(0)]),
+    sampleEntry: () => box("mp4a", [
+      zeros(6), u16(1),
+      zeros(8),
+      u16(opts.audio!.channels), u16(16),
+      u16(0), u16(0),
+      u32(opts.audio!.sampleRate * 65536),
+      esds(audioConfig ?? audioSpecificConfig(opts.audio!.sampleRate, opts.audio!.channels)),
+    ]),
+  } : null;
+
+  function push(track: Track, chunk: EncodedVideoChunk | EncodedAudioChunk) {
+    const data = new Uint8Array(chunk.byteLength);
+    chunk.copyTo(data);
+    track.samples.push({ data, timeUs: chunk.timestamp, durationUs: chunk.duration ?? 0, key: chunk.type === "key" });
+  }
+
+  return {
+    addVideoChunk(chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata) {
+      const desc = meta?.decoderConfig?.description;
+      if (desc) avcC = toBytes(desc);
+      push(video, chunk);
+    },
+    addAudioChunk(chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata) {
+      if (!audio) return;
+      const desc = meta?.decoderConfig?.description;
+      if (desc) audioConfig = toBytes(desc);
+      push(audio, chunk);
+    },
+    finalize(durationMs: number): Blob {
+      const tracks = audio ? [video, audio] : [video];
+      if (opts.subtitles?.length) tracks.push(textTrack(tracks.length + 1, opts.subtitles, durationMs, opts.video));
+      return new Blob([buildFile(tracks, durationMs)], { type: "video/mp4" });
+    },
+  };
+}
+
+export type Mp4Muxer = ReturnType<typeof createMp4Muxer>;
+
+// tx3g samples cover the whole timeline and can't overlap, so the timeline
+// is split at every cue start and end: each piece shows the cues active
+// through it, one per line, and gaps become empty samples. Each sample is a
+// 16-bit length plus UTF-8 text.
+function textTrack(id: number, cues: Cue[], durationMs: number, size: Mp4VideoTrack): Track {
+  const clamp = (ms: number) => Math.max(0, Math.min(durationMs, ms));
+  const cuts = [...new Set([0, durationMs, ...cues.flatMap(c => [clamp(c.startMs), clamp(c.endMs)])])].sort((a, b) => a - b);
+  const pieces: { fromMs: number; toMs: number; text: string }[] = [];
+  for (let i = 0; i < cuts.length - 1; i++) {
+    const fromMs = cuts[i], toMs = cuts[i + 1];
+    const text = cues.filter(c => c.startMs <= fromMs && c.endMs >= toMs).map(c => c.text).join("\n");
+    // Neighbours with the same text stay one sample
+    const last = pieces[pieces.length - 1];
+    if (last?.text === text) last.toMs = toMs;
+    else pieces.push({ fromMs, toMs, text });
+  }
+  const samples = pieces.map((p): Sample => {
+    const bytes = new TextEncoder().encode(p.text);
+    return { data: concat([u16(bytes.length), bytes]), timeUs: p.fromMs * 1000, durationUs: (p.toMs - p.fromMs) * 1000, key: true };
+  });
+  return {
+    id,
+    handler: "sbtl",
+    timescale: TEXT_TIMESCALE,
+    samples,
+    width: size.width,
+    height: size.height,
+    header: () => fullBox("nmhd", 0, 0, []),
+    sampleEntry: () => box("tx3g", [
+      zeros(6), u16(1),
+      u32(0),
+      // Centred horizontally, at the bottom; transparent background
+      new Uint8Array([0x01, 0xff]),
+      u32(0),
+      // Default text box (whole track) and style: font 1, 18pt, opaque white
+      zeros(8),
+      u16(0), u16(0), u16(1), new Uint8Array([0, 18]), u32(0xffffffff),
+      box("ftab", [u16(1), u16(1), new Uint8Array([10]), ascii("Sans-Serif")]),
+    ]),
+  };
+}
+
+function buildFile(tracks: Track[], durationMs: number) {
+  const ftyp = box("ftyp", [ascii("isom"), u32(0x200), ascii("isom"), ascii("iso2"), ascii("avc1"), ascii("mp41")]);
+  const mdatPayload = tracks.flatMap(t => t.samples.map(s => s.data));
+  const mdatSize = 8 + mdatPayload.reduce((n, d) => n + d.length, 0);
+
+  // moov size does not depend on the offsets (stco is fixed width), so
+  // build once to measure, then again with real offsets
+  const sizing = moov(tracks, durationMs, 0);
+  const dataStart = ftyp.length + sizing.length + 8;
+  const moovBox = moov(tracks, durationMs, dataStart);
+
+  return concat([ftyp, moovBox, u32(mdatSize), ascii("mdat"), ...mdatPayload]);
+}
+
+function moov(tracks: Track[], durationMs: number, dataStart: number) {
+  let offset = dataStart;
+  const traks = tracks.map(t => {
+    const offsets = t.samples.map(s => { const o = offset; offset += s.data.length; return o; });
+    return trak(t, durationMs, offsets);
+  });
+  return box("moov", [
+    fullBox("mvhd", 0, 0, [
+      u32(0), u32(0),
+      u32(1000), u32(Math.round(durationMs)),
+      u32(0x00010000), u16(0x0100), zeros(10),
+      matrix(),
+      zeros(24),
+      u32(tracks.length + 1),
+    ]),
+    ...traks,
+  ]);
+}
+
+function trak(t: Track, durationMs: number, offsets: number[]) {
+  const durations = sampleDurations(t);
+  const mediaDuration = durations.reduce((n, d) => n + d, 0);
+  const isVideo = t.handler === "vide";
+  return box("trak", [
+    fullBox("tkhd", 0, 3, [
+      u32(0), u32(0),
+      u32(t.id), u32(0),
+      u32(Math.round(durationMs)),
+      zeros(8),
+      u16(0), u16(0),
+      u16(t.handler === "soun" ? 0x0100 : 0), u16(0),
+      matrix(),
+      u32(t.width * 65536), u32(t.height * 65536),
+    ]),
+    box("mdia", [
+      fullBox("mdhd", 0, 0, [u32(0), u32(0), u32(t.timescale), u32(mediaDuration), u16(0x55c4), u16(0)]),
+      fullBox("hdlr", 0, 0, [u32(0), ascii(t.handler), zeros(12), ascii(HANDLER_NAMES[t.handler])]),
+      box("minf", [
+        t.header(),
+        box("dinf", [fullBox("dref", 0, 0, [u32(1), fullBox("url ", 0, 1, [])])]),
+        box("stbl", [
+          fullBox("stsd", 0, 0, [u32(1), t.sampleEntry()]),
+          stts(durations),
+          ...(isVideo ? [stss(t.samples)] : []),
+          fullBox("stsc", 0, 0, [u32(1), u32(1), u32(1), u32(1)]),
+          fullBox("stsz", 0, 0, [u32(0), u32(t.samples.length), ...t.samples.map(s => u32(s.data.length))]),
+          fullBox("stco", 0, 0, [u32(offsets.length), ...offsets.map(u32)]),
+        ]),
+      ]),
+    ]),
+  ]);
+}
+
+// Per-sample durations in track timescale, from timestamp deltas
+function sampleDurations(t: Track) {
+  const toTs = (us: number) => Math.round(us * t.timescale / 1e6);
+  return t.samples.map((s, i) => {
+    const next = t.samples[i + 1];
+    return next ? toTs(next.timeUs) - toTs(s.timeUs) : Math.max(1, toTs(s.durationUs));
+  });
+}
+
+function stts(durations: number[]) {
+  const runs: [number, number][] = [];
+  for (const d of durations) {
+    const last = runs[runs.length - 1];
+    if (last && last[1] === d) last[0]++; else runs.push([1, d]);
+  }
+  return fullBox("stts", 0, 0, [u32(runs.length), ...runs.flatMap(([n, d]) => [u32(n), u32(d)])]);
+}
+
+function stss(samples: Sample[]) {
+  const sync = samples.flatMap((s, i) => s.key ? [i + 1] : []);
+  return fullBox("stss", 0, 0, [u32(sync.length), ...sync.map(u32)]);
+}
+
+function esds(asc: Uint8Array) {
+  const decSpecific = descriptor(0x05, [asc]);
+  const decConfig = descriptor(0x04, [
+    new Uint8Array([0x40, 0x15, 0, 0, 0]),
+    u32(0), u32(0),
+    decSpecific,
+  ]);
+  const es = descriptor(0x03, [u16(1), new Uint8Array([0]), decConfig, descriptor(0x06, [new Uint8Array([0x02])])]);
+  return fullBox("esds", 0, 0, [es]);
+}
+
+const AAC_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+
+// AAC-LC AudioSpecificConfig, used when the encoder does not provide one
+function audioSpecificConfig(sampleRate: number, channels: number) {
+  const idx = Math.max(0, AAC_RATES.indexOf(sampleRate));
+  const v = (2 << 11) | (idx << 7) | (channels << 3);
+  return new Uint8Array([v >> 8, v & 0xff]);
+}
+
+function descriptor(tag: number, parts: Uint8Array[]) {
+  const body = concat(parts);
+  const n = body.length;
+  return concat([new Uint8Array([tag, 0x80 | ((n >> 21) & 0x7f), 0x80 | ((n >> 14) & 0x7f), 0x80 | ((n >> 7) & 0x7f), n & 0x7f]), body]);
+}
+
+// --- Box primitives ---
+
+function box(type: string, parts: Uint8Array[]) {
+  const body = concat(parts);
+  return concat([u32(body.length + 8), ascii(type), body]);
+}
+
+function fullBox(type: string, version: number, flags: number, parts: Uint8Array[]) {
+  return box(type, [new Uint8Array([version, (flags >> 16) & 0xff, (flags >> 8) & 0xff, flags & 0xff]), ...parts]);
+}
+
+function matrix() {
+  return concat([u32(0x00010000), u32(0), u32(0), u32(0), u32(0x00010000), u32(0), u32(0), u32(0), u32(0x40000000)]);
+}
+
+function u16(n: number) {
+  return new Uint8Array([(n >> 8) & 0xff, n & 0xff]);
+}
+
+function u32(n: number) {
+  const out = new Uint8Array(4);
+  new DataView(out.buffer).setUint32(0, n >>> 0);
+  return out;
+}
+
+function zeros(n: number) {
+  return new Uint8Array(n);
+}
+
+function ascii(s: string) {
+  return new Uint8Array(Array.from(s, c => c.charCodeAt(0)));
+}
+
+function toBytes(src: AllowSharedBufferSource) {
+  if (src instanceof Uint8Array) return src.slice();
+  if (ArrayBuffer.isView(src)) return new Uint8Array(src.buffer.slice(src.byteOffset, src.byteOffset + src.byteLength));
+  return new Uint8Array(src.slice(0));
+}
+
+function concat(parts: Uint8Array[]) {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let off = 0;
+  for (const p of parts) { out.set(p, off); off += p.length; }
+  return out;
+}
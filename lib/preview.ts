@@ -0,0 +1,128 @@
+// Preview rendering in a Web Worker. The composer hands its canvas over with
+// transferControlToOffscreen and posts the frame input once per edit and a
+// draw request per frame; the worker keeps the renderer and its caches.
+import type { SceneMedia } from "@/lib/media";
+import { supportsOfflineRender } from "@/lib/render";
+import type { FrameInput, FrameMedia } from "@/lib/renderer";
+
+// Everything but the media, which is posted separately as bitmaps
+export type PreviewInput = Omit<FrameInput, "media" | "logo">;
+
+// A clip's current frame, grabbed on the main thread where the video plays
+export interface ClipFrame {
+  id: string;
+  frame: ImageBitmap;
+}
+
+export type PreviewRequest =
+  | { type: "init"; canvas: OffscreenCanvas }
+  | { type: "input"; input: PreviewInput; width: number; height: number }
+  | { type: "media"; id: string; media: FrameMedia | null }
+  | { type: "release"; ids: string[] }
+  | { type: "logo"; logo: FrameMedia | null }
+  | { type: "fonts"; id: number; files: File[] }
+  | { type: "draw"; id: number; tMs: number; clips: ClipFrame[] };
+
+// Reply to fonts and draw requests; frameMs is the time spent drawing
+export type PreviewResponse = { type: "done"; id: number; frameMs: number; error?: string };
+
+export interface PreviewWorker {
+  setInput: (input: PreviewInput, width: number, height: number) => void;
+  // Transfers the media's bitmaps to the worker
+  setMedia: (id: string, media: FrameMedia | null) => void;
+  release: (ids: string[]) => void;
+  setLogo: (logo: FrameMedia | null) => void;
+  setFonts: (files: File[]) => Promise<void>;
+  // Resolves to the time the worker spent drawing (ms)
+  draw: (tMs: number, clips: ClipFrame[]) => Promise<number>;
+  dispose: () => void;
+}
+
+// Only where exports can use WebCodecs too: the real-time recorder fallback
+// captures the preview canvas, which a transferred canvas can't provide
+export function supportsWorkerPreview() {
+  return typeof Worker !== "undefined"
+    && typeof HTMLCanvasElement !== "undefined"
+    && "transferControlToOffscreen" in HTMLCanvasElement.prototype
+    && supportsOfflineRender();
+}
+
+export function createPreviewWorker(canvas: HTMLCanvasElement): PreviewWorker {
+  const worker = new Worker(new URL("./preview.worker.ts", import.meta.url));
+  const pending = new Map<number, { resolve: (frameMs: number) => void; reject: (e: Error) => void }>();
+  let nextId = 0;
+
+  worker.onmessage = (e: MessageEvent<PreviewResponse>) => {
+    const { id, frameMs, error } = e.data;
+    const p = pending.get(id);
+    pending.delete(id);
+    if (error) p?.reject(new Error(error));
+    else p?.resolve(frameMs);
+  };
+
+  const post = (msg: PreviewRequest, transfer: Transferable[] = []) => worker.postMessage(msg, transfer);
+  const request = (msg: (id: number) => PreviewRequest, transfer?: Transferable[]) => new Promise<number>((resolve, reject) => {
+    const id = ++nextId;
+    pending.set(id, { resolve, reject });
+    post(msg(id), transfer);
+  });
+
+  const offscreen = canvas.transferControlToOffscreen();
+  post({ type: "init", canvas: offscreen }, [offscreen]);
+
+  return {
+    setInput: (input, width, height) => post({ type: "input", input, width, height }),
+    setMedia: (id, media) => post({ type: "media", id, media }, bitmaps(media)),
+    release: (ids) => post({ type: "release", ids }),
+    setLogo: (logo) => post({ type: "logo", logo }, bitmaps(logo)),
+    setFonts: (files) => request((id) => ({ type: "fonts", id, files })).then(() => {}),
+    draw: (tMs, clips) => request((id) => ({ type: "draw", id, tMs, clips }), clips.map(c => c.frame)),
+    dispose: () => {
+      worker.terminate();
+      for (const p of pending.values()) p.reject(new Error("Preview closed"));
+      pending.clear();
+    },
+  };
+}
+
+// A clip's source and poster are the same bitmap; list it once
+function bitmaps(media: FrameMedia | null): Transferable[] {
+  if (!media) return [];
+  return [...new Set([media.source, media.poster])].filter((b): b is ImageBitmap => b instanceof ImageBitmap);
+}
+
+// Bitmap copies of loaded media for the worker, so the composer keeps its
+// own for exports. Clips start on their poster; draws bring their frames.
+export async function workerMedia(m: SceneMedia): Promise<FrameMedia> {
+  if (m.kind === "image") return { source: await createImageBitmap(m.source), width: m.width, height: m.height };
+  const poster = await createImageBitmap(m.poster);
+  return { source: poster, width: m.width, height: m.height, poster };
+}
+
+export interface FrameStats {
+  fps: number;
+  // Mean and worst time spent drawing a frame (ms)
+  frameMs: number;
+  worstMs: number;
+}
+
+// Frame rate and draw times over the last second of frames
+export function createFrameMeter(windowMs = 1000) {
+  let frames: { at: number; ms: number }[] = [];
+  return {
+    tick(ms: number, at = performance.now()) {
+      frames.push({ at, ms });
+      frames = frames.filter(f => at - f.at <= windowMs);
+    },
+    read(now = performance.now()): FrameStats {
+      const recent = frames.filter(f => now - f.at <= windowMs);
+      if (!recent.length) return { fps: 0, frameMs: 0, worstMs: 0 };
+      const span = recent.length > 1 ? recent[recent.length - 1].at - recent[0].at : 0;
+      return {
+        fps: span > 0 ? (recent.length - 1) * 1000 / span : 0,
+        frameMs: recent.reduce((n, f) => n + f.ms, 0) / recent.length,
+        worstMs: Math.max(...recent.map(f => f.ms)),
+      };
+    },
+  };
+}
@@ -0,0 +1,95 @@
+// Preview worker: draws frames on the composer's transferred canvas. See
+// lib/preview.ts for the messages.
+import { loadBrandFonts } from "@/lib/brand";
+import type { PreviewInput, PreviewRequest, PreviewResponse } from "@/lib/preview";
+import { createRenderCache } from "@/lib/rendercache";
+import { createRenderer, type Canvas2D, type FrameMedia, type Renderer } from "@/lib/renderer";
+
+const scope = self as unknown as {
+  fonts: FontFaceSet;
+  onmessage: ((e: MessageEvent<PreviewRequest>) => void) | null;
+  postMessage: (msg: PreviewResponse) => void;
+};
+
+let ctx: Canvas2D | null = null;
+let input: PreviewInput | null = null;
+let logo: FrameMedia | null = null;
+let renderer: Renderer | null = null;
+// Shared with the renderer, which looks media up per frame
+const media = new Map<string, FrameMedia | null>();
+// Kept across inputs, so typing in the editor reuses graded stills and layers
+const cache = createRenderCache();
+
+function rebuild() {
+  renderer = input && createRenderer({ ...input, media, logo }, { cache });
+}
+
+function close(m: FrameMedia | null | undefined) {
+  if (!m) return;
+  for (const b of new Set([m.source, m.poster])) if (b instanceof ImageBitmap) b.close();
+}
+
+scope.onmessage = async (e) => {
+  const msg = e.data;
+  switch (msg.type) {
+    case "init":
+      ctx = msg.canvas.getContext("2d") as unknown as Canvas2D;
+      break;
+    case "input":
+      if (ctx && (ctx.canvas.width !== msg.width || ctx.canvas.height !== msg.height)) {
+        ctx.canvas.width = msg.width;
+        ctx.canvas.height = msg.height;
+      }
+      input = msg.input;
+      rebuild();
+      break;
+    case "media":
+      close(media.get(msg.id));
+      media.set(msg.id, msg.media);
+      break;
+    case "release":
+      for (const id of msg.ids) {
+        close(media.get(id));
+        media.delete(id);
+      }
+      break;
+    case "logo":
+      close(logo);
+      logo = msg.logo;
+      rebuild();
+      break;
+    case "fonts": {
+      // Always reply, or the composer waits on the fonts forever
+      let error: string | undefined;
+      try {
+        await loadBrandFonts(msg.files, scope.fonts);
+      } catch (err) {
+        error = err instanceof Error ? err.message : String(err);
+      }
+      scope.postMessage({ type: "done", id: msg.id, frameMs: 0, error });
+      break;
+    }
+    case "draw": {
+      // Clips show this frame's bitmap in place of their poster
+      for (const c of msg.clips) {
+        const m = media.get(c.id);
+        if (m) media.set(c.id, { ...m, source: c.frame });
+      }
+      const start = performance.now();
+      let error: string | undefined;
+      try {
+        if (ctx && renderer) renderer.drawFrame(ctx, msg.tMs);
+      } catch (err) {
+        error = err instanceof Error ? err.message : String(err);
+      }
+      const frameMs = performance.now() - start;
+      for (const c of msg.clips) {
+        const m = media.get(c.id);
+        if (m) media.set(c.id, { ...m, source: m.poster ?? m.source });
+        c.frame.close();
+      }
+      scope.postMessage({ type: "done", id: msg.id, frameMs, error });
+      break;
+    }
+  }
+};
@@ -0,0 +1,490 @@
+// Versioned project document. Files (media, music, logo, fonts) are kept out
+// of the JSON and referenced by asset id, so the same document works for
+// IndexedDB autosave and for .cineforge bundles.
+import { applyAssetDurations, newAssetId, type Asset } from "@/lib/assets";
+import { DEFAULT_AUDIO_MIX, type AudioMix } from "@/lib/audio";
+import { syncTimelineToBeats } from "@/lib/beats";
+import { DEFAULT_BRAND_KIT, LOGO_CORNERS, type BrandKit } from "@/lib/brand";
+import { EASINGS } from "@/lib/easing";
+import { MAX_ZOOM } from "@/lib/kenburns";
+import { DEFAULT_LOCALE, DEFAULT_PRICING, TRANSLATED_FIELDS, isValidLocale, type LocaleVariant, type Pricing } from "@/lib/locale";
+import { ASPECT_RATIOS, BITRATE_PRESETS, DEFAULT_EXPORT_SETTINGS, FPS_PRESETS, type AspectRatio, type ExportSettings } from "@/lib/render";
+import { DEFAULT_VOICE_OVER, type VoiceOver } from "@/lib/subtitles";
+import { DEFAULT_TEXT_ANIMATIONS, TEXT_EFFECTS, type TextAnimations } from "@/lib/textanim";
+import { DEFAULT_THEME_ID, TEXT_ROLES, parseTheme, type Theme } from "@/lib/themes";
+import { createDefaultTimeline, parseTimeline, type Timeline } from "@/lib/timeline";
+import { createZip, readZip } from "@/lib/zip";
+
+export const PROJECT_VERSION = 2;
+export const BUNDLE_EXTENSION = ".cineforge";
+
+export interface AssetRef {
+  id: string;
+  name: string;
+  type: string;
+  lastModified: number;
+}
+
+// An asset tray entry with its file replaced by a file id
+export type ProjectAsset = Omit<Asset, "file"> & { file: string };
+
+export interface Project {
+  version: typeof PROJECT_VERSION;
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  productName: string;
+  tagline: string;
+  features: string[];
+  price: string;
+  cta: string;
+  // Language of the fields above; variants translate them for other markets
+  locale: string;
+  pricing: Pricing;
+  locales: LocaleVariant[];
+  ratio: AspectRatio;
+  themeId: string;
+  // Copy of a custom theme, so the project opens where that theme is missing
+  theme: Theme | null;
+  brand: Omit<BrandKit, "logo" | "fonts"> & { logo: string | null; fonts: string[] };
+  timeline: Timeline;
+  audioMix: AudioMix;
+  beatSync: boolean;
+  animations: TextAnimations;
+  voiceOver: VoiceOver;
+  exportSettings: ExportSettings;
+  // Every file the project uses; the fields below refer to these by id
+  files: AssetRef[];
+  assets: ProjectAsset[];
+  audio: string | null;
+}
+
+// Live editor state, with real File objects
+export interface ProjectState {
+  productName: string;
+  tagline: string;
+  features: string[];
+  price: string;
+  cta: string;
+  locale: string;
+  pricing: Pricing;
+  locales: LocaleVariant[];
+  ratio: AspectRatio;
+  themeId: string;
+  theme: Theme | null;
+  brand: BrandKit;
+  timeline: Timeline;
+  audioMix: AudioMix;
+  beatSync: boolean;
+  animations: TextAnimations;
+  voiceOver: VoiceOver;
+  exportSettings: ExportSettings;
+  assets: Asset[];
+  audioFile: File | null;
+}
+
+export type ProjectMeta = Pick<Project, "id" | "name" | "createdAt" | "updatedAt">;
+
+export function defaultProjectState(): ProjectState {
+  return {
+    productName: "Aurora Lamp",
+    tagline: "Light. Sculpted.",
+    features: [
+      "Premium anodized aluminum",
+      "Adaptive ambient glow",
+      "12h battery life",
+    ],
+    price: "$129",
+    cta: "Shop Now ?",
+    locale: DEFAULT_LOCALE,
+    pricing: DEFAULT_PRICING,
+    locales: [],
+    ratio: "16:9",
+    themeId: DEFAULT_THEME_ID,
+    theme: null,
+    brand: DEFAULT_BRAND_KIT,
+    timeline: createDefaultTimeline(),
+    audioMix: DEFAULT_AUDIO_MIX,
+    beatSync: false,
+    animations: DEFAULT_TEXT_ANIMATIONS,
+    voiceOver: DEFAULT_VOICE_OVER,
+    exportSettings: DEFAULT_EXPORT_SETTINGS,
+    assets: [],
+    audioFile: null,
+  };
+}
+
+export function newProjectId() {
+  return `p${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function newProjectMeta(name = "Untitled project"): ProjectMeta {
+  const now = Date.now();
+  return { id: newProjectId(), name, createdAt: now, updatedAt: now };
+}
+
+// The timeline as played and exported: asset duration overrides, then cuts
+// snapped to the music's beats (track time) when beat sync is on
+export function timelineForRender(state: Pick<ProjectState, "timeline" | "assets" | "beatSync" | "audioMix">, beatsMs: number[] | null) {
+  const tl = applyAssetDurations(state.timeline, state.assets);
+  if (!state.beatSync || !beatsMs?.length) return tl;
+  return syncTimelineToBeats(tl, beatsMs, state.audioMix.offsetMs);
+}
+
+// Stable ids for File objects, so unchanged files are not stored twice
+const fileIds = new WeakMap<File, string>();
+
+export function fileId(file: File) {
+  let id = fileIds.get(file);
+  if (!id) {
+    id = `f${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+    fileIds.set(file, id);
+  }
+  return id;
+}
+
+function fileFor(ref: AssetRef, data: Blob) {
+  const file = data instanceof File && data.name === ref.name
+    ? data
+    : new File([data], ref.name, { type: ref.type, lastModified: ref.lastModified });
+  fileIds.set(file, ref.id);
+  return file;
+}
+
+export function toProject(meta: ProjectMeta, state: ProjectState): { project: Project; files: Map<string, File> } {
+  const files = new Map<string, File>();
+  const ref = (f: File) => { const id = fileId(f); files.set(id, f); return id; };
+  const { logo, fonts, ...brand } = state.brand;
+  const project: Project = {
+    version: PROJECT_VERSION,
+    ...meta,
+    productName: state.productName,
+    tagline: state.tagline,
+    features: state.features,
+    price: state.price,
+    cta: state.cta,
+    locale: state.locale,
+    pricing: state.pricing,
+    locales: state.locales,
+    ratio: state.ratio,
+    themeId: state.themeId,
+    theme: state.theme,
+    brand: { ...brand, logo: logo ? ref(logo) : null, fonts: fonts.map(ref) },
+    timeline: state.timeline,
+    audioMix: state.audioMix,
+    beatSync: state.beatSync,
+    animations: state.animations,
+    voiceOver: state.voiceOver,
+    exportSettings: state.exportSettings,
+    assets: state.assets.map(({ file, ...a }) => ({ ...a, file: ref(file) })),
+    audio: state.audioFile ? ref(state.audioFile) : null,
+    files: [],
+  };
+  project.files = [...files].map(([id, f]) => ({ id, name: f.name, type: f.type, lastModified: f.lastModified }));
+  return { project, files };
+}
+
+// Missing files are dropped rather than failing the whole project
+export function fromProject(project: Project, blobs: Map<string, Blob>): ProjectState {
+  const refs = new Map(project.files.map(r => [r.id, r]));
+  const file = (id: string | null) => {
+    const ref = id ? refs.get(id) : undefined;
+    const data = id ? blobs.get(id) : undefined;
+    return ref && data ? fileFor(ref, data) : null;
+  };
+  const present = (f: File | null): f is File => f !== null;
+  return {
+    productName: project.productName,
+    tagline: project.tagline,
+    features: project.features,
+    price: project.price,
+    cta: project.cta,
+    locale: project.locale,
+    pricing: project.pricing,
+    locales: project.locales,
+    ratio: project.ratio,
+    themeId: project.themeId,
+    theme: project.theme,
+    brand: { ...project.brand, logo: file(project.brand.logo), fonts: project.brand.fonts.map(file).filter(present) },
+    timeline: project.timeline,
+    audioMix: project.audioMix,
+    beatSync: project.beatSync,
+    animations: project.animations,
+    voiceOver: project.voiceOver,
+    exportSettings: project.exportSettings,
+    assets: project.assets.flatMap(({ file: id, ...a }) => {
+      const f = file(id);
+      return f ? [{ ...a, file: f }] : [];
+    }),
+    audioFile: file(project.audio),
+  };
+}
+
+// --- Validation and migration ---
+
+// v1 listed asset files by id and image scenes pointed at them by index,
+// holding their own framing and clip trim; v2 moves those onto tray assets
+function migrateV1(d: any) {
+  const types = new Map<string, string>(Array.isArray(d.files) ? d.files.map((f: any) => [f?.id, String(f?.type ?? "")]) : []);
+  const media = (Array.isArray(d.assets) ? d.assets : [])
+    .filter((id: unknown) => typeof id === "string" && /^(image|video)\//.test(types.get(id) ?? ""));
+  const assets = media.map((file: string) => ({ id: newAssetId(), file, fingerprint: "" }));
+  const scenes = Array.isArray(d.timeline?.scenes) ? d.timeline.scenes.map((s: any) => {
+    if (s?.kind !== "image") return s;
+    const { imageIndex, framing, clip, ...params } = s.params ?? {};
+    const asset = assets[imageIndex];
+    if (asset) {
+      if (framing && !asset.framing) asset.framing = framing;
+      if (clip && !asset.clip) asset.clip = clip;
+    }
+    return { ...s, params: { ...params, assetId: asset?.id ?? "" } };
+  }) : undefined;
+  return { ...d, version: 2, assets, timeline: scenes ? { ...d.timeline, scenes } : d.timeline };
+}
+
+const MIGRATIONS: Record<number, (d: any) => any> = {
+  1: migrateV1,
+};
+
+export function migrateProject(data: unknown) {
+  if (!data || typeof data !== "object") throw new Error("Invalid project");
+  let d = data as any;
+  let version = d.version;
+  while (version < PROJECT_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) throw new Error(`Cannot migrate project version ${version}`);
+    d = step(d);
+    version = d.version;
+  }
+  if (version !== PROJECT_VERSION) throw new Error(`Unsupported project version ${version}`);
+  return d;
+}
+
+function fail(field: string): never {
+  throw new Error(`Invalid project: ${field}`);
+}
+
+function str(v: unknown, field: string, fallback?: string): string {
+  if (v === undefined && fallback !== undefined) return fallback;
+  return typeof v === "string" ? v : fail(field);
+}
+
+function num(v: unknown, field: string, fallback?: number): number {
+  if (v === undefined && fallback !== undefined) return fallback;
+  return typeof v === "number" && Number.isFinite(v) ? v : fail(field);
+}
+
+function bool(v: unknown, field: string, fallback: boolean): boolean {
+  if (v === undefined) return fallback;
+  return typeof v === "boolean" ? v : fail(field);
+}
+
+function idOrNull(v: unknown, field: string): string | null {
+  return v == null ? null : str(v, field);
+}
+
+function oneOf<T extends string>(v: unknown, options: readonly T[], field: string, fallback: T): T {
+  if (v === undefined) return fallback;
+  return options.includes(v as T) ? (v as T) : fail(field);
+}
+
+function obj(v: unknown): Record<string, unknown> {
+  return v && typeof v === "object" ? (v as Record<string, unknown>) : {};
+}
+
+// Export settings go straight to the encoder, so keep them to what the UI
+// offers: the nearest preset frame rate and a bitrate within the presets
+function presetFps(v: unknown, field: string) {
+  const fps = num(v, field, DEFAULT_EXPORT_SETTINGS.fps);
+  return FPS_PRESETS.reduce((best, f) => Math.abs(f - fps) < Math.abs(best - fps) ? f : best);
+}
+
+function presetBitrate(v: unknown, field: string) {
+  const rates = BITRATE_PRESETS.map(b => b.bitrate);
+  return Math.max(Math.min(...rates), Math.min(Math.max(...rates), num(v, field, DEFAULT_EXPORT_SETTINGS.bitrate)));
+}
+
+function frameKey(v: unknown, field: string) {
+  const k = obj(v);
+  return {
+    cx: num(k.cx, `${field}.cx`),
+    cy: num(k.cy, `${field}.cy`),
+    zoom: Math.max(1, Math.min(MAX_ZOOM, num(k.zoom, `${field}.zoom`))),
+  };
+}
+
+function localeTag(v: unknown, field: string, fallback?: string) {
+  const tag = str(v, field, fallback);
+  return isValidLocale(tag) ? tag : fail(field);
+}
+
+function amountOrNull(v: unknown, field: string) {
+  return v == null ? null : Math.max(0, num(v, field));
+}
+
+function parseLocaleVariant(v: unknown, field: string): LocaleVariant {
+  const l = obj(v);
+  const variant: LocaleVariant = { locale: localeTag(l.locale, `${field}.locale`) };
+  for (const key of TRANSLATED_FIELDS) {
+    if (l[key] == null) continue;
+    if (key === "features") {
+      variant.features = Array.isArray(l.features) ? l.features.map((f, i) => str(f, `${field}.features[${i}]`)) : fail(`${field}.features`);
+    } else {
+      variant[key] = str(l[key], `${field}.${key}`);
+    }
+  }
+  if (l.pricing != null) {
+    const p = obj(l.pricing);
+    variant.pricing = {};
+    if (p.amount !== undefined) variant.pricing.amount = amountOrNull(p.amount, `${field}.pricing.amount`);
+    if (p.compareAt !== undefined) variant.pricing.compareAt = amountOrNull(p.compareAt, `${field}.pricing.compareAt`);
+    if (p.currency != null) variant.pricing.currency = str(p.currency, `${field}.pricing.currency`);
+  }
+  return variant;
+}
+
+function parseAsset(v: unknown, field: string): ProjectAsset {
+  const a = obj(v);
+  const asset: ProjectAsset = {
+    id: str(a.id, `${field}.id`),
+    file: str(a.file, `${field}.file`),
+    fingerprint: str(a.fingerprint, `${field}.fingerprint`, ""),
+  };
+  if (a.caption != null) asset.caption = str(a.caption, `${field}.caption`);
+  if (a.durationMs != null) asset.durationMs = Math.max(100, num(a.durationMs, `${field}.durationMs`));
+  if (a.framing != null) {
+    const f = obj(a.framing);
+    const focus = obj(f.focus);
+    asset.framing = {
+      auto: bool(f.auto, `${field}.framing.auto`, false),
+      focus: { x: num(focus.x, `${field}.framing.focus.x`, 0.5), y: num(focus.y, `${field}.framing.focus.y`, 0.5) },
+      start: frameKey(f.start, `${field}.framing.start`),
+      end: frameKey(f.end, `${field}.framing.end`),
+      easing: oneOf(f.easing, Object.keys(EASINGS) as (keyof typeof EASINGS)[], `${field}.framing.easing`, "easeInOut"),
+    };
+  }
+  if (a.clip != null) {
+    const c = obj(a.clip);
+    asset.clip = {
+      inMs: Math.max(0, num(c.inMs, `${field}.clip.inMs`, 0)),
+      outMs: c.outMs == null ? null : num(c.outMs, `${field}.clip.outMs`),
+      keepAudio: bool(c.keepAudio, `${field}.clip.keepAudio`, false),
+    };
+  }
+  return asset;
+}
+
+// Validate (after migrating) a project document from storage or a bundle
+export function parseProject(input: unknown): Project {
+  const d = migrateProject(typeof input === "string" ? JSON.parse(input) : input);
+
+  const files = Array.isArray(d.files) ? d.files.map((f: any, i: number): AssetRef => ({
+    id: str(f?.id, `files[${i}].id`),
+    name: str(f?.name, `files[${i}].name`),
+    type: str(f?.type, `files[${i}].type`, ""),
+    lastModified: num(f?.lastModified, `files[${i}].lastModified`, 0),
+  })) : [];
+
+  const b = obj(d.brand);
+  const mix = obj(d.audioMix);
+  const exp = obj(d.exportSettings);
+  const vo = obj(d.voiceOver);
+  const anims = obj(d.animations);
+  const pricing = obj(d.pricing);
+  const assets: ProjectAsset[] = Array.isArray(d.assets) ? d.assets.map((a: unknown, i: number) => parseAsset(a, `assets[${i}]`)) : [];
+
+  const animations = {} as TextAnimations;
+  for (const role of TEXT_ROLES) {
+    const a = { ...DEFAULT_TEXT_ANIMATIONS[role], ...obj(anims[role]) };
+    const effects = TEXT_EFFECTS.map(e => e.effect);
+    if (!effects.includes(a.enter) || !effects.includes(a.exit) || !(a.easing in EASINGS)) fail(`animations.${role}`);
+    for (const k of ["enterMs", "exitMs", "delayMs"] as const) num(a[k], `animations.${role}.${k}`);
+    animations[role] = a;
+  }
+
+  return {
+    version: PROJECT_VERSION,
+    id: str(d.id, "id"),
+    name: str(d.name, "name", "Untitled project"),
+    createdAt: num(d.createdAt, "createdAt", Date.now()),
+    updatedAt: num(d.updatedAt, "updatedAt", Date.now()),
+    productName: str(d.productName, "productName", ""),
+    tagline: str(d.tagline, "tagline", ""),
+    features: Array.isArray(d.features) ? d.features.map((f: unknown, i: number) => str(f, `features[${i}]`)) : [],
+    price: str(d.price, "price", ""),
+    cta: str(d.cta, "cta", ""),
+    locale: localeTag(d.locale, "locale", DEFAULT_LOCALE),
+    pricing: {
+      amount: amountOrNull(pricing.amount, "pricing.amount"),
+      compareAt: amountOrNull(pricing.compareAt, "pricing.compareAt"),
+      currency: str(pricing.currency, "pricing.currency", DEFAULT_PRICING.currency),
+    },
+    locales: Array.isArray(d.locales) ? d.locales.map((l: unknown, i: number) => parseLocaleVariant(l, `locales[${i}]`)) : [],
+    ratio: oneOf(d.ratio, ASPECT_RATIOS, "ratio", "16:9"),
+    themeId: str(d.themeId, "themeId", DEFAULT_THEME_ID),
+    theme: d.theme ? { ...parseTheme(d.theme), id: str(d.themeId, "themeId") } : null,
+    brand: {
+      logoCorner: oneOf(b.logoCorner, LOGO_CORNERS, "brand.logoCorner", DEFAULT_BRAND_KIT.logoCorner),
+      logoScale: num(b.logoScale, "brand.logoScale", DEFAULT_BRAND_KIT.logoScale),
+      logoOpacity: num(b.logoOpacity, "brand.logoOpacity", DEFAULT_BRAND_KIT.logoOpacity),
+      primary: idOrNull(b.primary, "brand.primary"),
+      accent: idOrNull(b.accent, "brand.accent"),
+      headingFont: idOrNull(b.headingFont, "brand.headingFont"),
+      bodyFont: idOrNull(b.bodyFont, "brand.bodyFont"),
+      logo: idOrNull(b.logo, "brand.logo"),
+      fonts: Array.isArray(b.fonts) ? b.fonts.map((f, i) => str(f, `brand.fonts[${i}]`)) : [],
+    },
+    timeline: d.timeline ? parseTimeline(d.timeline) : createDefaultTimeline(assets.map(a => a.id)),
+    audioMix: {
+      offsetMs: num(mix.offsetMs, "audioMix.offsetMs", DEFAULT_AUDIO_MIX.offsetMs),
+      trimMs: mix.trimMs == null ? null : num(mix.trimMs, "audioMix.trimMs"),
+      volume: num(mix.volume, "audioMix.volume", DEFAULT_AUDIO_MIX.volume),
+      fadeIn: bool(mix.fadeIn, "audioMix.fadeIn", DEFAULT_AUDIO_MIX.fadeIn),
+      fadeOut: bool(mix.fadeOut, "audioMix.fadeOut", DEFAULT_AUDIO_MIX.fadeOut),
+      duckScenes: Array.isArray(mix.duckScenes) ? mix.duckScenes.filter((k): k is AudioMix["duckScenes"][number] => typeof k === "string") : [],
+      duckLevel: num(mix.duckLevel, "audioMix.duckLevel", DEFAULT_AUDIO_MIX.duckLevel),
+    },
+    beatSync: bool(d.beatSync, "beatSync", false),
+    animations,
+    voiceOver: {
+      script: str(vo.script, "voiceOver.script", DEFAULT_VOICE_OVER.script),
+      burnIn: bool(vo.burnIn, "voiceOver.burnIn", DEFAULT_VOICE_OVER.burnIn),
+    },
+    exportSettings: {
+      format: oneOf(exp.format, ["mp4", "webm"] as const, "exportSettings.format", DEFAULT_EXPORT_SETTINGS.format),
+      fps: presetFps(exp.fps, "exportSettings.fps"),
+      bitrate: presetBitrate(exp.bitrate, "exportSettings.bitrate"),
+      subtitles: bool(exp.subtitles, "exportSettings.subtitles", DEFAULT_EXPORT_SETTINGS.subtitles),
+    },
+    files,
+    assets,
+    audio: idOrNull(d.audio, "audio"),
+  };
+}
+
+// --- .cineforge bundles: project.json plus every referenced file ---
+
+export async function exportBundle(project: Project, files: Map<string, Blob>) {
+  return createZip([
+    { name: "project.json", data: JSON.stringify(project, null, 2) },
+    ...project.files.flatMap(ref => {
+      const data = files.get(ref.id);
+      return data ? [{ name: `assets/${ref.id}`, data }] : [];
+    }),
+  ]);
+}
+
+// Imported projects get a fresh id so they never overwrite a local one
+export async function importBundle(bundle: Blob) {
+  const entries = await readZip(bundle);
+  const json = entries.get("project.json");
+  if (!json) throw new Error("Not a CineForge bundle: project.json is missing");
+  const project = { ...parseProject(await json.text()), id: newProjectId(), updatedAt: Date.now() };
+  const files = new Map<string, Blob>();
+  for (const ref of project.files) {
+    const data = entries.get(`assets/${ref.id}`);
+    if (data) files.set(ref.id, data);
+  }
+  return { project, files };
+}
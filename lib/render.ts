@@ -0,0 +1,257 @@
+// Frame-accurate offline export: every frame is drawn at t = i / fps and
+// pushed through WebCodecs, so output does not depend on wall-clock timing.
+import { createWebmMuxer, type WebmVideoTrack } from "@/lib/webm";
+import { createMp4Muxer } from "@/lib/mp4";
+import type { Cue } from "@/lib/subtitles";
+
+export type DrawFn = (ctx: CanvasRenderingContext2D, tMs: number) => void;
+
+export type ExportFormat = "mp4" | "webm";
+
+export interface ExportSettings {
+  format: ExportFormat;
+  fps: number;
+  bitrate: number;
+  // Mux the text track into the video; SRT/WebVTT sidecars are always offered
+  subtitles: boolean;
+}
+
+// An encoded video with the text track it was rendered with
+export interface RenderResult {
+  video: Blob;
+  cues: Cue[];
+}
+
+export const FPS_PRESETS = [24, 25, 30, 60];
+
+export const BITRATE_PRESETS = [
+  { label: "Draft", bitrate: 2_500_000 },
+  { label: "Standard", bitrate: 6_000_000 },
+  { label: "High", bitrate: 12_000_000 },
+  { label: "Master", bitrate: 24_000_000 },
+];
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = { format: "mp4", fps: 30, bitrate: 6_000_000, subtitles: false };
+
+export type AspectRatio = "16:9" | "9:16" | "1:1" | "4:5";
+
+export const ASPECT_RATIOS: AspectRatio[] = ["16:9", "9:16", "1:1", "4:5"];
+
+export interface OutputPreset {
+  id: string;
+  label: string;
+  ratio: AspectRatio;
+  width: number;
+  height: number;
+}
+
+// The first preset of each ratio is the preview / single-export size
+export const OUTPUT_PRESETS: OutputPreset[] = [
+  { id: "16x9-720p", label: "16:9 720p", ratio: "16:9", width: 1280, height: 720 },
+  { id: "16x9-1080p", label: "16:9 1080p", ratio: "16:9", width: 1920, height: 1080 },
+  { id: "16x9-4k", label: "16:9 4K", ratio: "16:9", width: 3840, height: 2160 },
+  { id: "9x16-1080p", label: "9:16 1080p", ratio: "9:16", width: 1080, height: 1920 },
+  { id: "9x16-4k", label: "9:16 4K", ratio: "9:16", width: 2160, height: 3840 },
+  { id: "1x1-1080", label: "1:1 1080", ratio: "1:1", width: 1080, height: 1080 },
+  { id: "1x1-4k", label: "1:1 2160", ratio: "1:1", width: 2160, height: 2160 },
+  { id: "4x5-1080", label: "4:5 1080", ratio: "4:5", width: 1080, height: 1350 },
+  { id: "4x5-4k", label: "4:5 2160", ratio: "4:5", width: 2160, height: 2700 },
+];
+
+export function previewSize(ratio: AspectRatio) {
+  const p = OUTPUT_PRESETS.find(p => p.ratio === ratio) ?? OUTPUT_PRESETS[0];
+  return { width: p.width, height: p.height };
+}
+
+// Width / height as a number
+export function aspectValue(ratio: AspectRatio) {
+  const [w, h] = ratio.split(":").map(Number);
+  return w / h;
+}
+
+export interface OfflineRenderOptions {
+  width: number;
+  height: number;
+  format: ExportFormat;
+  fps: number;
+  durationMs: number;
+  videoBitrate: number;
+  draw: DrawFn;
+  // Runs before each frame is drawn, e.g. to seek video sources
+  prepare?: (tMs: number) => Promise<void>;
+  audio?: AudioBuffer | null;
+  // Subtitle track cues and their BCP 47 language
+  subtitles?: Cue[] | null;
+  language?: string;
+  onProgress?: (p: number) => void;
+}
+
+const AUDIO_SAMPLE_RATE = 48_000;
+const KEYFRAME_INTERVAL_S = 2;
+
+export function supportsOfflineRender() {
+  return typeof window !== "undefined"
+    && "VideoEncoder" in window
+    && "VideoFrame" in window
+    && "OffscreenCanvas" in window;
+}
+
+// H.264 often comes without AAC (e.g. Chromium on Linux), so callers check
+// the audio side too before committing to an offline export with sound
+export async function supportsOfflineAudio(format: ExportFormat) {
+  if (!supportsOfflineRender() || !("AudioEncoder" in window)) return false;
+  return (await pickAudioConfig(format, 2)) !== null;
+}
+
+export async function renderOffline(opts: OfflineRenderOptions): Promise<Blob> {
+  const { width, height, format, fps, durationMs, draw, onProgress } = opts;
+
+  const video = await pickVideoConfig(format, width, height, fps, opts.videoBitrate);
+  if (!video) throw new Error(`No supported ${format === "mp4" ? "H.264" : "VP8/VP9"} encoder in this browser`);
+
+  let audio: AudioEncoderConfig | null = null;
+  if (opts.audio) {
+    audio = "AudioEncoder" in window ? await pickAudioConfig(format, opts.audio.numberOfChannels) : null;
+    if (!audio) throw new Error(`No supported ${format === "mp4" ? "AAC" : "Opus"} encoder in this browser`);
+  }
+
+  const muxer = format === "mp4"
+    ? createMp4Muxer({
+      video: { width, height },
+      audio: audio ? { sampleRate: AUDIO_SAMPLE_RATE, channels: audio.numberOfChannels } : null,
+      subtitles: opts.subtitles,
+    })
+    : createWebmMuxer({
+      video: { codec: video.track ?? "V_VP8", width, height, frameRate: fps },
+      audio: audio ? { codec: "A_OPUS", sampleRate: AUDIO_SAMPLE_RATE, channels: audio.numberOfChannels } : null,
+      subtitles: opts.subtitles,
+      language: opts.language,
+    });
+
+  let failure: Error | null = null;
+  const fail = (e: DOMException) => { failure ??= e; };
+
+  const videoEncoder = new VideoEncoder({ output: (chunk, meta) => muxer.addVideoChunk(chunk, meta), error: fail });
+  let audioEncoder: AudioEncoder | null = null;
+  try {
+    videoEncoder.configure(video.config);
+
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext("2d") as unknown as CanvasRenderingContext2D;
+    const frameCount = Math.max(1, Math.ceil(durationMs * fps / 1000));
+    const frameDurationUs = Math.round(1e6 / fps);
+    const keyEvery = Math.max(1, Math.round(fps * KEYFRAME_INTERVAL_S));
+
+    for (let i = 0; i < frameCount; i++) {
+      if (failure) throw failure;
+      const t = Math.min(i * 1000 / fps, durationMs - 1);
+      if (opts.prepare) await opts.prepare(t);
+      draw(ctx, t);
+      const frame = new VideoFrame(canvas, { timestamp: Math.round(i * 1e6 / fps), duration: frameDurationUs });
+      videoEncoder.encode(frame, { keyFrame: i % keyEvery === 0 });
+      frame.close();
+      onProgress?.((i + 1) / frameCount);
+      // Keep the encoder queue short so memory stays flat on long renders
+      while (videoEncoder.encodeQueueSize > 4) await new Promise(r => setTimeout(r, 0));
+    }
+    await videoEncoder.flush();
+
+    if (audio && opts.audio) {
+      audioEncoder = new AudioEncoder({ output: (chunk, meta) => muxer.addAudioChunk(chunk, meta), error: fail });
+      audioEncoder.configure(audio);
+      const buffer = await resample(opts.audio, AUDIO_SAMPLE_RATE, durationMs);
+      encodeAudioBuffer(audioEncoder, buffer);
+      await audioEncoder.flush();
+    }
+    if (failure) throw failure;
+
+    return muxer.finalize(durationMs);
+  } finally {
+    // Also when drawing or muxing throws, so a failed export frees the codecs
+    if (videoEncoder.state !== "closed") videoEncoder.close();
+    if (audioEncoder && audioEncoder.state !== "closed") audioEncoder.close();
+  }
+}
+
+const VIDEO_CODECS: Record<ExportFormat, { track: WebmVideoTrack["codec"] | null; codec: string }[]> = {
+  // Constrained Baseline (no B-frames, so decode order = display order), level 5.1 → 3.1
+  mp4: [
+    { track: null, codec: "avc1.42E033" },
+    { track: null, codec: "avc1.42E028" },
+    { track: null, codec: "avc1.42E01F" },
+  ],
+  webm: [
+    { track: "V_VP9", codec: "vp09.00.40.08" },
+    // Level 5.1 for 4K frame sizes
+    { track: "V_VP9", codec: "vp09.00.51.08" },
+    { track: "V_VP8", codec: "vp8" },
+  ],
+};
+
+async function pickVideoConfig(format: ExportFormat, width: number, height: number, fps: number, bitrate: number) {
+  for (const c of VIDEO_CODECS[format]) {
+    const config: VideoEncoderConfig = {
+      codec: c.codec,
+      width,
+      height,
+      framerate: fps,
+      bitrate,
+      // Software encoders give byte-identical output across runs
+      hardwareAcceleration: "prefer-software",
+      latencyMode: "quality",
+      ...(format === "mp4" ? { avc: { format: "avc" as const } } : {}),
+    };
+    try {
+      const support = await VideoEncoder.isConfigSupported(config);
+      if (support.supported) return { track: c.track, config: support.config ?? config };
+    } catch {}
+  }
+  return null;
+}
+
+async function pickAudioConfig(format: ExportFormat, channels: number): Promise<AudioEncoderConfig | null> {
+  const config: AudioEncoderConfig = {
+    codec: format === "mp4" ? "mp4a.40.2" : "opus",
+    sampleRate: AUDIO_SAMPLE_RATE,
+    numberOfChannels: Math.min(2, Math.max(1, channels)),
+    bitrate: 128_000,
+  };
+  try {
+    const support = await AudioEncoder.isConfigSupported(config);
+    return support.supported ? config : null;
+  } catch {
+    return null;
+  }
+}
+
+// Resample (and cut) to the encoder rate via an offline graph
+async function resample(src: AudioBuffer, sampleRate: number, durationMs: number) {
+  const channels = Math.min(2, src.numberOfChannels);
+  const length = Math.max(1, Math.round(durationMs / 1000 * sampleRate));
+  const ctx = new OfflineAudioContext(channels, length, sampleRate);
+  const node = ctx.createBufferSource();
+  node.buffer = src;
+  node.connect(ctx.destination);
+  node.start(0);
+  return ctx.startRendering();
+}
+
+function encodeAudioBuffer(encoder: AudioEncoder, buffer: AudioBuffer) {
+  const block = 4800;
+  const channels = buffer.numberOfChannels;
+  for (let off = 0; off < buffer.length; off += block) {
+    const n = Math.min(block, buffer.length - off);
+    const planar = new Float32Array(n * channels);
+    for (let c = 0; c < channels; c++) planar.set(buffer.getChannelData(c).subarray(off, off + n), c * n);
+    const data = new AudioData({
+      format: "f32-planar",
+      sampleRate: buffer.sampleRate,
+      numberOfFrames: n,
+      numberOfChannels: channels,
+      timestamp: Math.round(off * 1e6 / buffer.sampleRate),
+      data: planar,
+    });
+    encoder.encode(data);
+    data.close();
+  }
+}
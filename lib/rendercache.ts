@@ -0,0 +1,66 @@
+// Caches for the frame renderer: stills scaled down to what a frame can show
+// and colour graded once, and full-frame layers (background, gradients,
+// vignette, letterbox) drawn once per resolution. Hosts keep one cache across
+// renderer instances, so edits to the copy don't throw the work away.
+import { MAX_ZOOM } from "@/lib/kenburns";
+import type { Canvas2D, FrameMedia } from "@/lib/renderer";
+import { createLayer as defaultCreateLayer, layerContext, type Layer } from "@/lib/transitions";
+
+// Bytes of full-frame layers kept before the least recently used are
+// dropped, e.g. after a batch export through 4K sizes: eight 4K layers or
+// about seventy at 720p
+const LAYER_BUDGET = 256 * 1024 * 1024;
+
+const layerBytes = (l: Layer) => l.width * l.height * 4;
+
+export interface RenderCache {
+  // Layer of W×H painted by paint on first use; key names everything the
+  // paint depends on besides the size
+  layer: (key: string, W: number, H: number, paint: (ctx: Canvas2D) => void) => Layer;
+  // A still at cover size for a W×H frame at full zoom, with the CSS filter
+  // grade baked in
+  still: (source: CanvasImageSource, width: number, height: number, W: number, H: number, grade: string) => FrameMedia;
+}
+
+export function createRenderCache(createLayer: (width: number, height: number) => Layer = defaultCreateLayer): RenderCache {
+  const layers = new Map<string, Layer>();
+  let bytes = 0;
+  // One entry per source: a new size or grade replaces the old one
+  const stills = new WeakMap<object, { key: string; media: FrameMedia }>();
+
+  function layer(key: string, W: number, H: number, paint: (ctx: Canvas2D) => void) {
+    const id = `${key}|${W}x${H}`;
+    let l = layers.get(id);
+    if (l) {
+      layers.delete(id);
+    } else {
+      l = createLayer(W, H);
+      paint(layerContext(l));
+      bytes += layerBytes(l);
+      for (const [old, o] of layers) {
+        if (bytes <= LAYER_BUDGET) break;
+        layers.delete(old);
+        bytes -= layerBytes(o);
+      }
+    }
+    layers.set(id, l);
+    return l;
+  }
+
+  function still(source: CanvasImageSource, width: number, height: number, W: number, H: number, grade: string) {
+    const scale = Math.min(1, Math.max(W / width, H / height) * MAX_ZOOM);
+    const w = Math.max(1, Math.round(width * scale)), h = Math.max(1, Math.round(height * scale));
+    const key = `${grade}|${w}x${h}`;
+    const hit = stills.get(source as object);
+    if (hit?.key === key) return hit.media;
+    const l = createLayer(w, h);
+    const ctx = layerContext(l);
+    ctx.filter = grade;
+    ctx.drawImage(source, 0, 0, w, h);
+    const media: FrameMedia = { source: l, width: w, height: h, graded: true };
+    stills.set(source as object, { key, media });
+    return media;
+  }
+
+  return { layer, still };
+}
@@ -0,0 +1,753 @@
+// Frame renderer shared by the browser preview, browser export and the
+// headless server render. It only draws on a Canvas2D context it is handed,
+// so it runs against a DOM canvas, an OffscreenCanvas or node-side canvases
+// such as skia-canvas and node-canvas.
+import { fitCover, framingRect, pathFraming, withFocus, type FocalPoint, type Framing } from "@/lib/kenburns";
+import { frameAt, scheduleTimeline, timelineDuration, type GridLayout, type SpecRow, type Timeline, type TimelineScene } from "@/lib/timeline";
+import { createLayer, drawTransition, layerContext, type Layer } from "@/lib/transitions";
+import { roleFont, type TextRole, type Theme } from "@/lib/themes";
+import { logoRect, type BrandKit } from "@/lib/brand";
+import { canvasMeasure, drawTextLayout, layoutBounds, layoutText, safeArea, type TextBlockOptions } from "@/lib/textlayout";
+import { animationAlpha, drawAnimatedText, type TextAnimations } from "@/lib/textanim";
+import { assetCaption, type Asset } from "@/lib/assets";
+import { DEFAULT_LOCALE, textDirection, unitLabel } from "@/lib/locale";
+import { ease } from "@/lib/easing";
+import { cueAt, type Cue } from "@/lib/subtitles";
+import { createRenderCache, type RenderCache } from "@/lib/rendercache";
+
+// Node canvases implement the same drawing API under their own type names;
+// cast them to this at the boundary. It includes the CSS filter used for
+// grading, as in lib/transitions.ts.
+export type Canvas2D = CanvasRenderingContext2D;
+
+// Anything the host's drawImage accepts, with its pixel size. Clips pass
+// their video element (already seeked) plus a poster for still uses.
+export interface FrameMedia {
+  source: CanvasImageSource;
+  width: number;
+  height: number;
+  poster?: CanvasImageSource;
+  // Colour grade already applied, e.g. a still from the render cache
+  graded?: boolean;
+}
+
+export interface FrameInput {
+  timeline: Timeline;
+  assets: Pick<Asset, "id" | "caption" | "framing">[];
+  // By asset id; missing or null draws the scene without its media
+  media: Map<string, FrameMedia | null>;
+  // Detected subject per asset, for auto framing
+  focalPoints: Map<string, FocalPoint>;
+  productName: string;
+  tagline: string;
+  features: string[];
+  price: string;
+  // Regular price, struck through above a sale price
+  compareAtPrice?: string | null;
+  cta: string;
+  // Language of the copy; right-to-left scripts mirror the text layout
+  locale?: string;
+  // Voice-over captions drawn over every frame
+  burnedCaptions?: Cue[];
+  theme: Theme;
+  brand: Pick<BrandKit, "logoCorner" | "logoScale" | "logoOpacity">;
+  logo: FrameMedia | null;
+  animations: TextAnimations;
+}
+
+export interface RendererOptions {
+  // Scratch canvases for transitions; defaults to OffscreenCanvas / <canvas>
+  createLayer?: (width: number, height: number) => Layer;
+  // Graded stills and static layers; pass one to keep them across renderers
+  cache?: RenderCache;
+}
+
+// Time into the scene being drawn, for text animations
+interface SceneClock {
+  ms: number;
+  sceneMs: number;
+}
+
+// Grid tiles, stars and spec rows come in one after another
+const STAGGER_MS = 140;
+const ENTER_MS = 420;
+const STAR_COLOR = "#fbbf24";
+// Share of a comparison scene spent sweeping the divider across
+const SWEEP = 0.55;
+
+export function createRenderer(input: FrameInput, options: RendererOptions = {}) {
+  const { assets, media, focalPoints, features, theme, brand, logo, animations } = input;
+  const schedule = scheduleTimeline(input.timeline);
+  const durationMs = timelineDuration(input.timeline);
+  const assetIndex = new Map(assets.map((a, i) => [a.id, i]));
+  const makeLayer = options.createLayer ?? createLayer;
+  const cache = options.cache ?? createRenderCache(makeLayer);
+  const grade = theme.effects.grade || "none";
+  const locale = input.locale ?? DEFAULT_LOCALE;
+  const direction = textDirection(locale);
+  const rtl = direction === "rtl";
+  const twoDigits = new Intl.NumberFormat(locale, { minimumIntegerDigits: 2, useGrouping: false });
+  // Offscreen layers for the two scenes of a transition
+  const layers: Layer[] = [];
+
+  function getLayer(i: number, W: number, H: number) {
+    let layer = layers[i];
+    if (!layer || layer.width !== W || layer.height !== H) {
+      layer = makeLayer(W, H);
+      layers[i] = layer;
+    }
+    return layer;
+  }
+
+  // The colour grade is a CSS filter on text and shapes only; stills and
+  // full-frame layers come graded from the cache
+  function drawFrame(ctx: Canvas2D, tMs: number) {
+    const W = ctx.canvas.width, H = ctx.canvas.height;
+    ctx.filter = "none";
+    ctx.clearRect(0,0,W,H);
+
+    // Background
+    drawCached(ctx, `fill|${theme.colors.background}`, solid(theme.colors.background));
+
+    const time = Math.min(tMs, durationMs - 1);
+    const frame = frameAt(schedule, time);
+    if (!frame) return;
+
+    const incoming = frame.incoming;
+    if (incoming?.entry.transition) {
+      // Render both scenes separately and let the transition blend them;
+      // the layers are graded already
+      const from = getLayer(0, W, H), to = getLayer(1, W, H);
+      drawSceneLayer(from, frame.current.entry.scene, frame.current.prog);
+      drawSceneLayer(to, incoming.entry.scene, incoming.prog);
+      drawTransition(ctx, from, to, incoming.entry.transition, frame.mix);
+    } else {
+      ctx.filter = grade;
+      drawScene(ctx, frame.current.entry.scene, frame.current.prog);
+      ctx.filter = "none";
+    }
+
+    // Vignette
+    if (theme.effects.vignette) {
+      const strength = theme.effects.vignetteStrength;
+      drawCached(ctx, `vignette|${strength}`, (c)=>drawVignette(c, strength));
+    }
+
+    // Optional anamorphic bars
+    if (theme.effects.letterbox) {
+      const { letterboxAspect: aspect, letterboxOpacity: opacity } = theme.effects;
+      drawCached(ctx, `letterbox|${aspect}|${opacity}`, (c)=>drawLetterbox(c, aspect, opacity));
+    }
+
+    // Captions stay ungraded, on top of everything
+    const caption = input.burnedCaptions && cueAt(input.burnedCaptions, time);
+    if (caption) drawBurnedCaption(ctx, caption.text);
+  }
+
+  // Text each scene shows, shared by drawing and the text track
+  function sceneText(scene: TimelineScene) {
+    if (scene.kind === "intro") {
+      return { title: scene.params.title ?? input.productName, subtitle: scene.params.subtitle ?? input.tagline };
+    }
+    if (scene.kind === "image") {
+      const idx = assetIndex.get(scene.params.assetId) ?? -1;
+      return { caption: scene.params.caption ?? assetCaption(assets, features, idx) };
+    }
+    if (scene.kind === "grid") {
+      const { assetIds, labels, title } = scene.params;
+      return { title, items: assetIds.map((_, i) => labels?.[i] || features[i] || "") };
+    }
+    if (scene.kind === "compare") {
+      return { items: [scene.params.beforeLabel ?? "Before", scene.params.afterLabel ?? "After"] };
+    }
+    if (scene.kind === "review") {
+      const { quote, author, rating } = scene.params;
+      return { title: quote, subtitle: author, items: [`★ ${rating}/5`] };
+    }
+    if (scene.kind === "specs") {
+      return { title: scene.params.title, items: scene.params.rows.map(r => `${r.label}: ${r.value}`) };
+    }
+    if (scene.kind === "countdown") {
+      return { title: scene.params.label ?? "Sale ends in" };
+    }
+    if (scene.kind === "price") {
+      // A scene's own price text replaces the sale pair too
+      const compareAt = scene.params.price === undefined ? input.compareAtPrice ?? null : null;
+      return { price: scene.params.price ?? input.price, compareAt, cta: scene.params.cta ?? input.cta };
+    }
+    return {};
+  }
+
+  // One cue per scene with text, switching halfway through transitions
+  function textCues(): Cue[] {
+    const handover = (i: number) => {
+      const next = schedule[i + 1];
+      return next ? next.start + next.overlapMs / 2 : schedule[i].end;
+    };
+    return schedule.flatMap((entry, i) => {
+      const t = sceneText(entry.scene);
+      const lines = [t.title, t.subtitle, t.caption, ...(t.items ?? []), t.compareAt && t.price ? `${t.compareAt} → ${t.price}` : t.price, t.cta];
+      const text = lines.filter((l): l is string => !!l?.trim()).join("\n");
+      const startMs = entry.start + entry.overlapMs / 2;
+      return text ? [{ startMs, endMs: handover(i), text }] : [];
+    });
+  }
+
+  function drawSceneLayer(layer: Layer, scene: TimelineScene, prog: number) {
+    const lctx = layerContext(layer);
+    lctx.filter = "none";
+    lctx.clearRect(0,0,layer.width,layer.height);
+    drawCached(lctx, `fill|${theme.colors.background}`, solid(theme.colors.background));
+    lctx.filter = grade;
+    drawScene(lctx, scene, prog);
+    lctx.filter = "none";
+  }
+
+  // Full-frame paint from the cache, graded when it was drawn
+  function drawCached(ctx: Canvas2D, key: string, paint: (c: Canvas2D) => void) {
+    const layer = cache.layer(`${key}|${grade}`, ctx.canvas.width, ctx.canvas.height, (c)=>{
+      c.filter = grade;
+      paint(c);
+    });
+    withoutGrade(ctx, ()=>ctx.drawImage(layer, 0, 0));
+  }
+
+  // Cached stills are graded already; clips go through the filter
+  function drawMedia(ctx: Canvas2D, m: FrameMedia, sx: number, sy: number, sw: number, sh: number, dx: number, dy: number, dw: number, dh: number) {
+    if (m.graded) withoutGrade(ctx, ()=>ctx.drawImage(m.source, sx, sy, sw, sh, dx, dy, dw, dh));
+    else ctx.drawImage(m.source, sx, sy, sw, sh, dx, dy, dw, dh);
+  }
+
+  function drawScene(ctx: Canvas2D, scene: TimelineScene, prog: number) {
+    const W = ctx.canvas.width, H = ctx.canvas.height;
+    const clock = { ms: prog * scene.durationMs, sceneMs: scene.durationMs };
+    const text = sceneText(scene);
+    if (scene.kind === "intro") {
+      const first = assets[0] && still(assets[0].id, W, H);
+      drawIntro(ctx, first ?? undefined, text.title!, text.subtitle!, prog, clock);
+      drawLogo(ctx, "center", Math.min(1, prog * 1.5));
+    } else if (scene.kind === "image") {
+      const idx = assetIndex.get(scene.params.assetId) ?? -1;
+      const asset = assets[idx];
+      const m = asset && media.get(asset.id);
+      drawImageScene(ctx, m && (m.poster ? m : stillOf(m, W, H)), text.caption, imageFraming(asset, idx), prog, clock);
+      drawLogo(ctx, "corner", 1);
+    } else if (scene.kind === "grid") {
+      const tiles = scene.params.assetIds.map(id => still(id, W, H));
+      drawGrid(ctx, tiles, text.items!, text.title, scene.params.layout, prog, clock);
+      drawLogo(ctx, "corner", 1);
+    } else if (scene.kind === "compare") {
+      drawCompare(ctx, still(scene.params.beforeId, W, H), still(scene.params.afterId, W, H), text.items!, prog, clock);
+      drawLogo(ctx, "corner", 1);
+    } else if (scene.kind === "review") {
+      drawReview(ctx, scene.params.quote, scene.params.author, scene.params.rating, clock);
+      drawLogo(ctx, "corner", 1);
+    } else if (scene.kind === "specs") {
+      drawSpecs(ctx, text.title, scene.params.rows, clock);
+      drawLogo(ctx, "corner", 1);
+    } else if (scene.kind === "countdown") {
+      drawCountdown(ctx, text.title!, scene.params.remainingMs, clock);
+      drawLogo(ctx, "center", Math.min(1, prog * 1.5));
+    } else if (scene.kind === "price") {
+      drawPrice(ctx, text.price!, text.compareAt ?? null, text.cta!, clock);
+      drawLogo(ctx, "center", Math.min(1, prog * 1.5));
+    } else if (scene.kind === "outro") {
+      // fade to black
+      const color = scene.params.color ?? "black";
+      ctx.globalAlpha = prog;
+      drawCached(ctx, `fill|${color}`, solid(color));
+      ctx.globalAlpha = 1;
+    }
+  }
+
+  // Graded and scaled for a W×H frame; clips by their poster
+  function stillOf(m: FrameMedia, W: number, H: number) {
+    return cache.still(m.poster ?? m.source, m.width, m.height, W, H, grade);
+  }
+
+  function still(assetId: string, W: number, H: number) {
+    const m = media.get(assetId);
+    return m ? stillOf(m, W, H) : null;
+  }
+
+  function imageFraming(asset: FrameInput["assets"][number] | undefined, index: number) {
+    const framing = asset?.framing;
+    if (!framing) return pathFraming(Math.max(0, index));
+    const focus = focalPoints.get(asset.id);
+    return framing.auto && focus ? withFocus(framing, focus) : framing;
+  }
+
+  function drawLogo(ctx: Canvas2D, placement: "corner" | "center", alpha: number) {
+    if (!logo) return;
+    const r = logoRect(ctx.canvas.width, ctx.canvas.height, logo.width, logo.height, brand, placement);
+    ctx.globalAlpha = brand.logoOpacity * alpha;
+    ctx.drawImage(logo.source, r.x, r.y, r.w, r.h);
+    ctx.globalAlpha = 1;
+  }
+
+  // Lay out and draw text in a theme role: wrapped, shrunk to fit, kept
+  // inside the safe area and animated with the role's preset. Right-to-left
+  // copy mirrors the theme's horizontal anchors.
+  function drawText(ctx: Canvas2D, role: TextRole, text: string, clock: SceneClock, overrides?: Partial<TextBlockOptions>) {
+    const W = ctx.canvas.width, H = ctx.canvas.height;
+    const s = theme.text[role];
+    const font = (px: number) => roleFont(theme, role, px);
+    const layout = layoutText(text, canvasMeasure(ctx, font), {
+      x: W*(rtl ? 1 - s.x : s.x),
+      y: H*s.y,
+      align: rtl && s.align !== "center" ? (s.align === "left" ? "right" : "left") : s.align,
+      direction,
+      grow: s.grow,
+      maxSize: W*s.size,
+      minSize: W*s.minSize,
+      lineHeight: s.lineHeight,
+      maxLines: s.maxLines,
+      safe: safeArea(W, H),
+      ...overrides,
+    });
+    ctx.fillStyle = s.color;
+    drawAnimatedText(ctx, layout, font, animations[role], clock.ms, clock.sceneMs);
+    return layout;
+  }
+
+  function drawIntro(ctx: Canvas2D, still: FrameMedia | undefined, title: string, subtitle: string, prog: number, clock: SceneClock) {
+    const W = ctx.canvas.width, H = ctx.canvas.height;
+    if (still) {
+      const fit = fitCover(still.width, still.height, W, H);
+      // Subtle zoom
+      const zoom = 1.04 + prog * 0.04;
+      const cx = fit.x + fit.w * 0.5;
+      const cy = fit.y + fit.h * 0.5;
+      const w = fit.w * zoom, h = fit.h * zoom;
+      ctx.globalAlpha = 0.9;
+      drawMedia(ctx, still, 0,0,still.width,still.height, cx - w/2, cy - h/2, w, h);
+      ctx.globalAlpha = 1;
+      // blur overlay
+      drawCached(ctx, `fill|${theme.colors.introOverlay}`, solid(theme.colors.introOverlay));
+    }
+    drawText(ctx, "title", title, clock);
+
+    ctx.globalAlpha = 0.9;
+    drawText(ctx, "subtitle", subtitle, clock);
+    ctx.globalAlpha = 1;
+  }
+
+  function drawImageScene(ctx: Canvas2D, m: FrameMedia | null | undefined, caption: string | undefined, framing: Framing, prog: number, clock: SceneClock) {
+    const W = ctx.canvas.width, H = ctx.canvas.height;
+    if (m) {
+      // Clips are already seeked to this frame's time
+      const r = framingRect(framing, prog, m.width, m.height, W/H);
+      ctx.globalAlpha = 1;
+      drawMedia(ctx, m, r.x, r.y, r.w, r.h, 0, 0, W, H);
+
+      // Subtle gradient at bottom for legibility
+      drawCached(ctx, `shade|${theme.colors.captionShade}`, (c)=>{
+        const grad = c.createLinearGradient(0, H*0.7, 0, H);
+        grad.addColorStop(0, "rgba(0,0,0,0)");
+        grad.addColorStop(1, theme.colors.captionShade);
+        c.fillStyle = grad;
+        c.fillRect(0, H*0.7, W, H*0.3);
+      });
+    }
+
+    if (caption) drawText(ctx, "caption", caption, clock);
+  }
+
+  // Gradient shared by the price card and the other text cards
+  function drawCardBackground(ctx: Canvas2D) {
+    const { priceFrom, priceTo } = theme.colors;
+    drawCached(ctx, `card|${priceFrom}|${priceTo}`, (c)=>{
+      const W = c.canvas.width, H = c.canvas.height;
+      const g = c.createLinearGradient(0,0,W,H);
+      g.addColorStop(0, priceFrom);
+      g.addColorStop(1, priceTo);
+      c.fillStyle = g;
+      c.fillRect(0,0,W,H);
+    });
+  }
+
+  // Cover-fit a still into a rect with rounded corners; missing media
+  // leaves a placeholder
+  function drawTile(ctx: Canvas2D, m: FrameMedia | null, x: number, y: number, w: number, h: number, r: number, zoom = 1) {
+    ctx.save();
+    roundRect(ctx, x, y, w, h, r);
+    ctx.clip();
+    if (m) {
+      const fit = fitCover(m.width, m.height, w, h);
+      const fw = fit.w*zoom, fh = fit.h*zoom;
+      drawMedia(ctx, m, 0, 0, m.width, m.height, x + (w - fw)/2, y + (h - fh)/2, fw, fh);
+    } else {
+      ctx.fillStyle = "rgba(255,255,255,0.08)";
+      ctx.fillRect(x, y, w, h);
+    }
+    ctx.restore();
+  }
+
+  // 2×2, or three in a row (stacked on portrait canvases), under an optional title
+  function drawGrid(ctx: Canvas2D, tiles: (FrameMedia | null)[], labels: string[], title: string | undefined, layout: GridLayout, prog: number, clock: SceneClock) {
+    const W = ctx.canvas.width, H = ctx.canvas.height;
+    const safe = safeArea(W, H);
+    const gap = Math.min(W, H)*0.02;
+    let top = safe.y;
+    if (title) {
+      const l = drawText(ctx, "title", title, clock, { y: safe.y + W*theme.text.title.size, grow: "down", maxLines: 1 });
+      const b = layoutBounds(l);
+      top = b.y + b.height + gap*2;
+    }
+    const [cols, rows] = layout === "2x2" ? [2, 2] : W > H ? [3, 1] : [1, 3];
+    const tw = (safe.width - gap*(cols - 1))/cols;
+    const th = (safe.y + safe.height - top - gap*(rows - 1))/rows;
+    for (let i = 0; i < cols*rows; i++) {
+      const t = ease("easeOutBack", (clock.ms - i*STAGGER_MS)/ENTER_MS);
+      if (t <= 0) continue;
+      const col = rtl ? cols - 1 - i % cols : i % cols;
+      const x = safe.x + col*(tw + gap), y = top + Math.floor(i/cols)*(th + gap);
+      ctx.save();
+      ctx.globalAlpha = Math.min(1, t);
+      ctx.translate(x + tw/2, y + th/2);
+      ctx.scale(0.9 + 0.1*t, 0.9 + 0.1*t);
+      ctx.translate(-(x + tw/2), -(y + th/2));
+      drawTile(ctx, tiles[i] ?? null, x, y, tw, th, gap, 1.02 + prog*0.04);
+      if (labels[i]) {
+        const grad = ctx.createLinearGradient(0, y + th*0.55, 0, y + th);
+        grad.addColorStop(0, "rgba(0,0,0,0)");
+        grad.addColorStop(1, theme.colors.captionShade);
+        ctx.fillStyle = grad;
+        roundRect(ctx, x, y + th*0.55, tw, th*0.45, gap);
+        ctx.fill();
+        const size = Math.min(W*theme.text.caption.size, th*0.14);
+        drawText(ctx, "caption", labels[i], clock, {
+          x: rtl ? x + tw - gap : x + gap,
+          y: y + th - gap,
+          align: rtl ? "right" : "left",
+          grow: "up",
+          maxSize: size,
+          minSize: size*0.6,
+          maxWidth: tw - gap*2,
+          safe: undefined,
+        });
+      }
+      ctx.restore();
+    }
+  }
+
+  // Before on the reading-start side; the divider sweeps across to reveal
+  // it and settles in the middle
+  function drawCompare(ctx: Canvas2D, before: FrameMedia | null, after: FrameMedia | null, labels: string[], prog: number, clock: SceneClock) {
+    const W = ctx.canvas.width, H = ctx.canvas.height;
+    const split = prog < SWEEP
+      ? 0.92 - 0.84*ease("easeInOut", prog/SWEEP)
+      : 0.08 + 0.42*ease("easeOut", (prog - SWEEP)/(1 - SWEEP));
+    const x = W*(rtl ? 1 - split : split);
+    const zoom = 1.02 + prog*0.04;
+
+    drawTile(ctx, after, 0, 0, W, H, 0, zoom);
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(rtl ? x : 0, 0, rtl ? W - x : x, H);
+    ctx.clip();
+    drawTile(ctx, before, 0, 0, W, H, 0, zoom);
+    ctx.restore();
+
+    // Shade at the top for the labels
+    drawCached(ctx, `topshade|${theme.colors.captionShade}`, (c)=>{
+      const grad = c.createLinearGradient(0, 0, 0, H*0.25);
+      grad.addColorStop(0, theme.colors.captionShade);
+      grad.addColorStop(1, "rgba(0,0,0,0)");
+      c.fillStyle = grad;
+      c.fillRect(0, 0, W, H*0.25);
+    });
+
+    // Each label fades as the divider passes over it
+    const safe = safeArea(W, H);
+    const size = W*theme.text.caption.size;
+    const label = (text: string, side: "left" | "right", room: number) => {
+      ctx.globalAlpha = Math.max(0, Math.min(1, room/(W*0.2)));
+      drawText(ctx, "caption", text, clock, {
+        x: side === "left" ? safe.x : safe.x + safe.width,
+        y: safe.y + size,
+        align: side,
+        grow: "down",
+        maxLines: 1,
+        maxWidth: W*0.4,
+      });
+    };
+    label(labels[0], rtl ? "right" : "left", rtl ? W - x : x);
+    label(labels[1], rtl ? "left" : "right", rtl ? x : W - x);
+    ctx.globalAlpha = 1;
+
+    // Divider with a round handle
+    const lw = Math.max(2, W*0.005), r = Math.min(W, H)*0.04;
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(x - lw/2, 0, lw, H);
+    ctx.beginPath();
+    ctx.arc(x, H/2, r, 0, Math.PI*2);
+    ctx.fillStyle = theme.colors.cta;
+    ctx.fill();
+    ctx.lineWidth = lw;
+    ctx.strokeStyle = "#ffffff";
+    ctx.stroke();
+    ctx.beginPath();
+    for (const dir of [-1, 1]) {
+      ctx.moveTo(x + dir*r*0.2, H/2 - r*0.3);
+      ctx.lineTo(x + dir*r*0.5, H/2);
+      ctx.lineTo(x + dir*r*0.2, H/2 + r*0.3);
+    }
+    ctx.stroke();
+  }
+
+  // Stars fill in one by one above the quote; halves fill from the reading start
+  function drawReview(ctx: Canvas2D, quote: string, author: string | undefined, rating: number, clock: SceneClock) {
+    const W = ctx.canvas.width, H = ctx.canvas.height;
+    drawCardBackground(ctx);
+
+    const r = Math.min(W, H)*0.035, gap = r*0.6;
+    const row = 5*r*2 + 4*gap;
+    const cy = H*0.34;
+    for (let i = 0; i < 5; i++) {
+      const cx = W/2 + (rtl ? 1 : -1)*(row/2 - r - i*(2*r + gap));
+      starPath(ctx, cx, cy, r);
+      ctx.fillStyle = "rgba(255,255,255,0.25)";
+      ctx.fill();
+      const fill = Math.max(0, Math.min(1, rating - i));
+      const t = ease("easeOutBack", (clock.ms - i*STAGGER_MS)/ENTER_MS);
+      if (fill <= 0 || t <= 0) continue;
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(rtl ? cx + r - 2*r*fill : cx - r, cy - r, 2*r*fill, 2*r);
+      ctx.clip();
+      ctx.translate(cx, cy);
+      ctx.scale(t, t);
+      starPath(ctx, 0, 0, r);
+      ctx.fillStyle = STAR_COLOR;
+      ctx.fill();
+      ctx.restore();
+    }
+
+    const q = drawText(ctx, "title", `“${quote}”`, clock, {
+      x: W/2,
+      y: cy + r*3,
+      align: "center",
+      grow: "down",
+      maxSize: W*theme.text.title.size*0.8,
+      maxLines: 6,
+    });
+    if (author) {
+      const b = layoutBounds(q);
+      ctx.globalAlpha = 0.85;
+      drawText(ctx, "subtitle", `— ${author}`, clock, {
+        x: W/2,
+        y: b.y + b.height + W*theme.text.subtitle.size*2,
+        align: "center",
+        grow: "down",
+        maxLines: 1,
+      });
+      ctx.globalAlpha = 1;
+    }
+  }
+
+  // Label / value rows with rules between them, under an optional title
+  function drawSpecs(ctx: Canvas2D, title: string | undefined, rows: SpecRow[], clock: SceneClock) {
+    const W = ctx.canvas.width, H = ctx.canvas.height;
+    drawCardBackground(ctx);
+    const safe = safeArea(W, H, 0.1, 0.08);
+    if (title) drawText(ctx, "title", title, clock, { y: H*0.24, grow: "up" });
+
+    const top = H*0.3;
+    const rowH = Math.min(H*0.08, (safe.y + safe.height - top)/Math.max(1, rows.length));
+    const size = Math.min(W*theme.text.subtitle.size*1.2, rowH*0.4);
+    const start = rtl ? safe.x + safe.width : safe.x, end = rtl ? safe.x : safe.x + safe.width;
+    const cell = { maxSize: size, minSize: size*0.6, maxLines: 1, maxWidth: safe.width*0.48, grow: "down" as const, safe: undefined };
+    rows.forEach((row, i) => {
+      const t = ease("easeOut", (clock.ms - i*STAGGER_MS)/ENTER_MS);
+      if (t <= 0) return;
+      const y = top + i*rowH;
+      ctx.globalAlpha = t;
+      ctx.fillStyle = "rgba(255,255,255,0.18)";
+      ctx.fillRect(safe.x, y + rowH, safe.width, Math.max(1, H*0.001));
+      ctx.globalAlpha = t*0.7;
+      drawText(ctx, "subtitle", row.label, clock, { ...cell, x: start, y: y + rowH*0.62, align: rtl ? "right" : "left" });
+      ctx.globalAlpha = t;
+      drawText(ctx, "subtitle", row.value, clock, { ...cell, x: end, y: y + rowH*0.62, align: rtl ? "left" : "right" });
+    });
+    ctx.globalAlpha = 1;
+  }
+
+  // Days (when there are any), hours, minutes and seconds in boxes, ticking
+  // down in real time; digits and unit names follow the locale
+  function drawCountdown(ctx: Canvas2D, label: string, remainingMs: number, clock: SceneClock) {
+    const W = ctx.canvas.width, H = ctx.canvas.height;
+    drawCardBackground(ctx);
+    drawText(ctx, "subtitle", label, clock, { x: W/2, y: H*0.4, align: "center", grow: "up" });
+
+    const left = Math.max(0, Math.floor((remainingMs - clock.ms)/1000));
+    const parts = [
+      { value: Math.floor(left/86_400), unit: "day" },
+      { value: Math.floor(left/3600) % 24, unit: "hour" },
+      { value: Math.floor(left/60) % 60, unit: "minute" },
+      { value: left % 60, unit: "second" },
+    ].filter((p, i) => i > 0 || p.value > 0);
+    if (rtl) parts.reverse();
+
+    const n = parts.length;
+    const boxW = Math.min(W*0.8/(n + (n - 1)*0.18), H*0.14), gap = boxW*0.18, boxH = boxW*1.15;
+    const x0 = W/2 - (n*boxW + (n - 1)*gap)/2, y = H*0.44;
+    const alpha = animationAlpha(animations.price, clock.ms, clock.sceneMs);
+    ctx.textAlign = "center";
+    ctx.textBaseline = "alphabetic";
+    parts.forEach((p, i) => {
+      const x = x0 + i*(boxW + gap);
+      ctx.globalAlpha = alpha;
+      ctx.fillStyle = "rgba(255,255,255,0.12)";
+      roundRect(ctx, x, y, boxW, boxH, boxW*0.12);
+      ctx.fill();
+      ctx.fillStyle = theme.text.price.color;
+      ctx.font = roleFont(theme, "price", boxW*0.5);
+      ctx.fillText(twoDigits.format(p.value), x + boxW/2, y + boxH*0.6);
+      ctx.globalAlpha = alpha*0.7;
+      ctx.font = roleFont(theme, "caption", boxW*0.15);
+      ctx.fillText(unitLabel(locale, p.unit, p.value), x + boxW/2, y + boxH*0.86);
+    });
+    ctx.globalAlpha = 1;
+  }
+
+  function drawPrice(ctx: Canvas2D, price: string, compareAt: string | null, cta: string, clock: SceneClock) {
+    const W = ctx.canvas.width, H = ctx.canvas.height;
+    drawCardBackground(ctx);
+
+    ctx.globalAlpha = 0.9;
+    const priceLayout = drawText(ctx, "price", price, clock);
+
+    // Sale: the regular price sits above, smaller and struck through
+    if (compareAt) {
+      const top = layoutBounds(priceLayout).y;
+      const size = priceLayout.fontSize*0.45;
+      ctx.globalAlpha = 0.6;
+      const was = drawText(ctx, "price", compareAt, clock, {
+        x: priceLayout.lines[0]?.x,
+        y: top - size*0.35,
+        align: priceLayout.align,
+        maxSize: size,
+        minSize: size*0.5,
+        maxLines: 1,
+        grow: "up",
+      });
+      ctx.globalAlpha = 0.6 * animationAlpha(animations.price, clock.ms, clock.sceneMs);
+      ctx.strokeStyle = theme.text.price.color;
+      ctx.lineWidth = Math.max(1, was.fontSize*0.08);
+      const b = layoutBounds(was);
+      const y = was.lines[0].y - was.fontSize*0.32;
+      ctx.beginPath();
+      ctx.moveTo(b.x - was.fontSize*0.1, y);
+      ctx.lineTo(b.x + b.width + was.fontSize*0.1, y);
+      ctx.stroke();
+    }
+
+    // CTA pill, centred on the cta anchor; fades with the label's animation
+    ctx.globalAlpha = animationAlpha(animations.cta, clock.ms, clock.sceneMs);
+    const anchor = theme.text.cta;
+    const pillW = W*0.36, pillH = Math.round(W*0.06);
+    const x = W*anchor.x - pillW/2, y = H*anchor.y - pillH/2, r = pillH/2;
+    ctx.fillStyle = theme.colors.cta;
+    roundRect(ctx, x, y, pillW, pillH, r);
+    ctx.fill();
+
+    // Label always sits centred in the pill, on one line
+    const labelSize = Math.min(W*theme.text.cta.size, pillH*0.6);
+    ctx.globalAlpha = 1;
+    drawText(ctx, "cta", cta, clock, {
+      x: W*anchor.x,
+      y: H*anchor.y + labelSize*0.35,
+      align: "center",
+      maxSize: labelSize,
+      maxLines: 1,
+      maxWidth: pillW - pillH*0.6,
+      safe: undefined,
+    });
+    ctx.globalAlpha = 1;
+  }
+
+  // High contrast for legibility over any footage: white on a near-opaque
+  // black box, in a plain face rather than the theme's display font
+  function drawBurnedCaption(ctx: Canvas2D, text: string) {
+    const W = ctx.canvas.width, H = ctx.canvas.height;
+    const font = (px: number) => `600 ${px}px system-ui, "Helvetica Neue", Arial, sans-serif`;
+    const layout = layoutText(text, canvasMeasure(ctx, font), {
+      x: W/2,
+      y: H*0.92,
+      align: "center",
+      grow: "up",
+      maxSize: Math.min(W, H)*0.045,
+      minSize: Math.min(W, H)*0.028,
+      lineHeight: 1.3,
+      maxLines: 2,
+      safe: safeArea(W, H, 0.08, 0.04),
+      direction,
+    });
+    const padX = layout.fontSize*0.4;
+    ctx.fillStyle = "rgba(0,0,0,0.85)";
+    for (const line of layout.lines) {
+      ctx.fillRect(line.x - line.width/2 - padX, line.y - layout.fontSize*0.95, line.width + padX*2, layout.lineHeight);
+    }
+    ctx.fillStyle = "#ffffff";
+    drawTextLayout(ctx, layout, font);
+  }
+
+  return { schedule, durationMs, drawFrame, textCues };
+}
+
+export type Renderer = ReturnType<typeof createRenderer>;
+
+export function roundRect(ctx: Canvas2D, x:number,y:number,w:number,h:number,r:number) {
+  const rr = Math.min(r, w/2, h/2);
+  ctx.beginPath();
+  ctx.moveTo(x+rr, y);
+  ctx.arcTo(x+w, y, x+w, y+h, rr);
+  ctx.arcTo(x+w, y+h, x, y+h, rr);
+  ctx.arcTo(x, y+h, x, y, rr);
+  ctx.arcTo(x, y, x+w, y, rr);
+  ctx.closePath();
+}
+
+function solid(color: string) {
+  return (ctx: Canvas2D) => {
+    ctx.fillStyle = color;
+    ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  };
+}
+
+function withoutGrade(ctx: Canvas2D, draw: () => void) {
+  const filter = ctx.filter;
+  ctx.filter = "none";
+  draw();
+  ctx.filter = filter;
+}
+
+function starPath(ctx: Canvas2D, cx: number, cy: number, r: number) {
+  ctx.beginPath();
+  for (let i = 0; i < 10; i++) {
+    const a = -Math.PI/2 + i*Math.PI/5;
+    const rr = i % 2 ? r*0.45 : r;
+    ctx.lineTo(cx + Math.cos(a)*rr, cy + Math.sin(a)*rr);
+  }
+  ctx.closePath();
+}
+
+export function drawVignette(ctx: Canvas2D, strength: number) {
+  const W = ctx.canvas.width, H = ctx.canvas.height;
+  const grad = ctx.createRadialGradient(W/2, H/2, Math.min(W,H)*0.3, W/2, H/2, Math.max(W,H)*0.7);
+  grad.addColorStop(0, "rgba(0,0,0,0)");
+  grad.addColorStop(1, `rgba(0,0,0,${strength})`);
+  ctx.fillStyle = grad;
+  ctx.fillRect(0,0,W,H);
+}
+
+export function drawLetterbox(ctx: Canvas2D, aspect: number, opacity: number) {
+  const W = ctx.canvas.width, H = ctx.canvas.height;
+  // target aspect:1 frame within canvas bounds
+  const targetH = Math.min(H, Math.round(W / aspect));
+  const pad = Math.max(0, (H - targetH) / 2);
+  ctx.fillStyle = `rgba(0,0,0,${opacity})`;
+  ctx.fillRect(0, 0, W, pad);
+  ctx.fillRect(0, H - pad, W, pad);
+}
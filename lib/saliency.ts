@@ -0,0 +1,87 @@
+// Local subject detection for "keep subject in frame" framing. Combines
+// edge energy with colour contrast against the image mean on a small
+// downscaled copy, then takes the weighted centroid of the strongest cells.
+import type { FocalPoint } from "@/lib/kenburns";
+import { createLayer, layerContext, type Layer } from "@/lib/transitions";
+
+const ANALYSIS_SIZE = 64;
+// Share of cells (by score) that contribute to the centroid
+const TOP_SHARE = 0.15;
+
+// makeCanvas supplies the scratch canvas where there is no DOM (server renders)
+export function findFocalPoint(
+  source: CanvasImageSource & { width: number; height: number },
+  makeCanvas: (w: number, h: number) => Layer = createLayer,
+): FocalPoint {
+  const scale = ANALYSIS_SIZE / Math.max(source.width, source.height);
+  const w = Math.max(1, Math.round(source.width * scale));
+  const h = Math.max(1, Math.round(source.height * scale));
+  const ctx = layerContext(makeCanvas(w, h)) as CanvasRenderingContext2D | null;
+  if (!ctx) return { x: 0.5, y: 0.5 };
+  ctx.drawImage(source, 0, 0, w, h);
+  return saliencyFocus(ctx.getImageData(0, 0, w, h).data, w, h);
+}
+
+// Focal point of an RGBA buffer, as fractions of its size
+export function saliencyFocus(rgba: Uint8ClampedArray, w: number, h: number): FocalPoint {
+  const n = w * h;
+  if (n === 0) return { x: 0.5, y: 0.5 };
+  const lum = new Float32Array(n);
+  let mr = 0, mg = 0, mb = 0;
+  for (let i = 0; i < n; i++) {
+    const r = rgba[i * 4], g = rgba[i * 4 + 1], b = rgba[i * 4 + 2];
+    lum[i] = 0.299 * r + 0.587 * g + 0.114 * b;
+    mr += r; mg += g; mb += b;
+  }
+  mr /= n; mg /= n; mb /= n;
+
+  const score = new Float32Array(n);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const i = y * w + x;
+      // Sobel edge magnitude
+      const at = (dx: number, dy: number) =>
+        lum[Math.min(h - 1, Math.max(0, y + dy)) * w + Math.min(w - 1, Math.max(0, x + dx))];
+      const gx = at(1, -1) + 2 * at(1, 0) + at(1, 1) - at(-1, -1) - 2 * at(-1, 0) - at(-1, 1);
+      const gy = at(-1, 1) + 2 * at(0, 1) + at(1, 1) - at(-1, -1) - 2 * at(0, -1) - at(1, -1);
+      const edge = Math.hypot(gx, gy) / 4;
+      // Colour distance from the mean, i.e. how much the pixel stands out
+      const contrast = Math.hypot(rgba[i * 4] - mr, rgba[i * 4 + 1] - mg, rgba[i * 4 + 2] - mb);
+      // Mild centre prior: products are usually roughly centred
+      const dx = x / w - 0.5, dy = y / h - 0.5;
+      const prior = 1 - 0.6 * Math.min(1, (dx * dx + dy * dy) * 2);
+      score[i] = (edge + contrast) * prior;
+    }
+  }
+
+  const smooth = boxBlur(score, w, h, 2);
+  const threshold = [...smooth].sort((a, b) => b - a)[Math.max(0, Math.floor(n * TOP_SHARE) - 1)];
+  let sx = 0, sy = 0, total = 0;
+  for (let i = 0; i < n; i++) {
+    const v = smooth[i] - threshold;
+    if (v < 0) continue;
+    const weight = v + 1e-6;
+    sx += ((i % w) + 0.5) * weight;
+    sy += (Math.floor(i / w) + 0.5) * weight;
+    total += weight;
+  }
+  if (total <= 0) return { x: 0.5, y: 0.5 };
+  return { x: sx / total / w, y: sy / total / h };
+}
+
+function boxBlur(src: Float32Array, w: number, h: number, r: number) {
+  const out = new Float32Array(src.length);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      let sum = 0, count = 0;
+      for (let yy = Math.max(0, y - r); yy <= Math.min(h - 1, y + r); yy++) {
+        for (let xx = Math.max(0, x - r); xx <= Math.min(w - 1, x + r); xx++) {
+          sum += src[yy * w + xx];
+          count++;
+        }
+      }
+      out[y * w + x] = sum / count;
+    }
+  }
+  return out;
+}
@@ -0,0 +1,110 @@
+// IndexedDB project library. Documents and file blobs live in separate
+// stores so listing projects never loads media, and unchanged files are
+// not rewritten on every autosave.
+import { newProjectId, parseProject, type Project, type ProjectMeta } from "@/lib/project";
+
+const DB_NAME = "cineforge";
+const DB_VERSION = 1;
+const PROJECTS = "projects";
+// Keyed by [projectId, fileId]
+const FILES = "files";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb() {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(PROJECTS)) db.createObjectStore(PROJECTS, { keyPath: "id" });
+      if (!db.objectStoreNames.contains(FILES)) db.createObjectStore(FILES);
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => { dbPromise = null; reject(req.error); };
+  });
+  return dbPromise;
+}
+
+function request<T>(req: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function done(tx: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// All file keys of one project
+function projectRange(id: string) {
+  return IDBKeyRange.bound([id, ""], [id, "\uffff"]);
+}
+
+export async function listProjects(): Promise<ProjectMeta[]> {
+  const db = await openDb();
+  const all = await request(db.transaction(PROJECTS).objectStore(PROJECTS).getAll());
+  return all
+    .map((p: Project) => ({ id: p.id, name: p.name, createdAt: p.createdAt, updatedAt: p.updatedAt }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function loadProject(id: string) {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, FILES]);
+  const raw = await request(tx.objectStore(PROJECTS).get(id));
+  if (!raw) throw new Error("Project not found");
+  const store = tx.objectStore(FILES);
+  const [keys, values] = await Promise.all([
+    request(store.getAllKeys(projectRange(id))),
+    request(store.getAll(projectRange(id))),
+  ]);
+  const files = new Map<string, Blob>();
+  keys.forEach((k, i) => files.set((k as [string, string])[1], values[i]));
+  return { project: parseProject(raw), files };
+}
+
+// Writes the document, adds new files and drops files no longer referenced
+export async function saveProject(project: Project, files: Map<string, Blob>) {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, FILES], "readwrite");
+  tx.objectStore(PROJECTS).put(project);
+  const store = tx.objectStore(FILES);
+  const existing = new Set((await request(store.getAllKeys(projectRange(project.id)))).map(k => (k as [string, string])[1]));
+  for (const [fileId, blob] of files) {
+    if (!existing.has(fileId)) store.put(blob, [project.id, fileId]);
+  }
+  for (const fileId of existing) {
+    if (!files.has(fileId)) store.delete([project.id, fileId]);
+  }
+  await done(tx);
+}
+
+export async function renameProject(id: string, name: string) {
+  const db = await openDb();
+  const tx = db.transaction(PROJECTS, "readwrite");
+  const store = tx.objectStore(PROJECTS);
+  const project = await request(store.get(id));
+  if (project) store.put({ ...project, name, updatedAt: Date.now() });
+  await done(tx);
+}
+
+export async function duplicateProject(id: string, name?: string): Promise<ProjectMeta> {
+  const { project, files } = await loadProject(id);
+  const now = Date.now();
+  const copy: Project = { ...project, id: newProjectId(), name: name ?? `${project.name} copy`, createdAt: now, updatedAt: now };
+  await saveProject(copy, files);
+  return { id: copy.id, name: copy.name, createdAt: now, updatedAt: now };
+}
+
+export async function deleteProject(id: string) {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, FILES], "readwrite");
+  tx.objectStore(PROJECTS).delete(id);
+  tx.objectStore(FILES).delete(projectRange(id));
+  await done(tx);
+}
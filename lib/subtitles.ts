@@ -0,0 +1,92 @@
+// Timed text: cues for the on-screen copy and the voice-over script,
+// serialized as SRT / WebVTT sidecars or muxed as a subtitle track.
+
+export interface Cue {
+  startMs: number;
+  endMs: number;
+  text: string;
+}
+
+export interface VoiceOver {
+  // One caption per line or sentence; "[m:ss]" at the start of a line pins
+  // its start, the rest share the time between pins by length
+  script: string;
+  // Draw the captions into the video
+  burnIn: boolean;
+}
+
+export const DEFAULT_VOICE_OVER: VoiceOver = { script: "", burnIn: true };
+
+// Shortest caption on screen when a long script is squeezed into the video
+const MIN_CUE_MS = 700;
+
+const TIMESTAMP = /^\[(?:(\d+):)?(\d+):(\d+(?:\.\d+)?)\]\s*/;
+
+function parseLine(line: string) {
+  const m = line.match(TIMESTAMP);
+  if (!m) return { atMs: null, text: line };
+  const [, h, min, sec] = m;
+  return { atMs: ((Number(h ?? 0) * 60 + Number(min)) * 60 + Number(sec)) * 1000, text: line.slice(m[0].length) };
+}
+
+export function scriptCues(script: string, durationMs: number): Cue[] {
+  // Sentences of a line become separate captions; a pin stays with the first
+  const parts = script.split(/\r?\n/).map(l => l.trim()).filter(Boolean).flatMap((line) => {
+    const { atMs, text } = parseLine(line);
+    return text.split(/(?<=[.!?。！？])\s+/).filter(Boolean).map((t, i) => ({ atMs: i === 0 ? atMs : null, text: t }));
+  });
+  const cues: Cue[] = [];
+  let i = 0;
+  while (i < parts.length) {
+    // A run of unpinned parts after an optional pin, up to the next pin
+    let j = i + 1;
+    while (j < parts.length && parts[j].atMs === null) j++;
+    const start = Math.min(durationMs, parts[i].atMs ?? cues[cues.length - 1]?.endMs ?? 0);
+    const end = Math.max(start, Math.min(durationMs, parts[j]?.atMs ?? durationMs));
+    const run = parts.slice(i, j);
+    const total = run.reduce((n, p) => n + p.text.length, 0);
+    let t = start;
+    for (const p of run) {
+      const d = Math.max(MIN_CUE_MS, (end - start) * p.text.length / Math.max(1, total));
+      cues.push({ startMs: t, endMs: Math.min(end, t + d), text: p.text });
+      t = Math.min(end, t + d);
+    }
+    i = j;
+  }
+  return cues.filter(c => c.endMs > c.startMs);
+}
+
+export function mergeCues(...lists: Cue[][]) {
+  return lists.flat().sort((a, b) => a.startMs - b.startMs || a.endMs - b.endMs);
+}
+
+export function cueAt(cues: Cue[], tMs: number) {
+  return cues.find(c => tMs >= c.startMs && tMs < c.endMs) ?? null;
+}
+
+function timestamp(ms: number, separator: "," | ".") {
+  const t = Math.max(0, Math.round(ms));
+  const h = Math.floor(t / 3_600_000);
+  const m = Math.floor(t / 60_000) % 60;
+  const s = Math.floor(t / 1000) % 60;
+  const pad = (n: number, w = 2) => String(n).padStart(w, "0");
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(t % 1000, 3)}`;
+}
+
+export function toSrt(cues: Cue[]) {
+  return cues.map((c, i) => `${i + 1}\n${timestamp(c.startMs, ",")} --> ${timestamp(c.endMs, ",")}\n${c.text}\n`).join("\n");
+}
+
+export function toWebVtt(cues: Cue[]) {
+  // "-->" would end the cue timing line early
+  const body = cues.map(c => `${timestamp(c.startMs, ".")} --> ${timestamp(c.endMs, ".")}\n${c.text.replace(/-->/g, "->")}\n`);
+  return ["WEBVTT\n", ...body].join("\n");
+}
+
+// Sidecar files named after the video, for downloads and ZIPs
+export function subtitleFiles(baseName: string, cues: Cue[]) {
+  return [
+    { name: `${baseName}.srt`, data: new Blob([toSrt(cues)], { type: "application/x-subrip" }) },
+    { name: `${baseName}.vtt`, data: new Blob([toWebVtt(cues)], { type: "text/vtt" }) },
+  ];
+}
@@ -0,0 +1,182 @@
+// Text animation presets. Effects run per block, per word or per character
+// on top of a laid-out text block, with an entrance at the start of the
+// scene and an optional exit at its end.
+import { EASINGS, type EasingName } from "@/lib/easing";
+import { breakUnits, layoutBounds, type TextLayout } from "@/lib/textlayout";
+import type { TextRole } from "@/lib/themes";
+
+export type TextEffect = "none" | "fade" | "typewriter" | "rise" | "stagger" | "slide" | "pop";
+export type SlideEdge = "left" | "right" | "top" | "bottom";
+
+export interface TextAnimation {
+  enter: TextEffect;
+  exit: TextEffect;
+  easing: EasingName;
+  enterMs: number;
+  exitMs: number;
+  // Wait after the scene starts before entering
+  delayMs: number;
+  // Used by "slide"
+  edge: SlideEdge;
+}
+
+export type TextAnimations = Record<TextRole, TextAnimation>;
+
+export const TEXT_EFFECTS: { effect: TextEffect; label: string }[] = [
+  { effect: "none", label: "None" },
+  { effect: "fade", label: "Fade" },
+  { effect: "typewriter", label: "Typewriter" },
+  { effect: "rise", label: "Word rise" },
+  { effect: "stagger", label: "Letter stagger" },
+  { effect: "slide", label: "Slide in" },
+  { effect: "pop", label: "Scale pop" },
+];
+
+const base: TextAnimation = { enter: "fade", exit: "none", easing: "easeOut", enterMs: 700, exitMs: 400, delayMs: 0, edge: "left" };
+
+export const DEFAULT_TEXT_ANIMATIONS: TextAnimations = {
+  title: { ...base, enter: "rise", enterMs: 900 },
+  subtitle: { ...base, delayMs: 300 },
+  caption: { ...base, enter: "slide", delayMs: 200 },
+  price: { ...base, enter: "pop", easing: "easeOutBack", enterMs: 600 },
+  cta: { ...base, delayMs: 350 },
+};
+
+// How the effect splits text and how much units overlap in time
+const UNITS: Record<TextEffect, { unit: "block" | "word" | "char"; spread: number }> = {
+  none: { unit: "block", spread: 0 },
+  fade: { unit: "block", spread: 0 },
+  slide: { unit: "block", spread: 0 },
+  pop: { unit: "block", spread: 0 },
+  rise: { unit: "word", spread: 0.6 },
+  stagger: { unit: "char", spread: 0.7 },
+  typewriter: { unit: "char", spread: 1 },
+};
+
+interface UnitState {
+  alpha: number;
+  dx: number;
+  dy: number;
+  scale: number;
+}
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+// Entrance progress (0 → 1) minus exit progress at time ms into the scene;
+// returns the active effect and its raw linear progress
+function phase(anim: TextAnimation, ms: number, sceneMs: number) {
+  const exitStart = sceneMs - anim.exitMs;
+  if (anim.exit !== "none" && ms >= exitStart) {
+    return { effect: anim.exit, p: 1 - clamp01((ms - exitStart) / Math.max(1, anim.exitMs)) };
+  }
+  if (anim.enter === "none") return { effect: anim.enter, p: 1 };
+  return { effect: anim.enter, p: clamp01((ms - anim.delayMs) / Math.max(1, anim.enterMs)) };
+}
+
+// Overall visibility, for shapes drawn with the text such as the CTA pill
+export function animationAlpha(anim: TextAnimation, ms: number, sceneMs: number) {
+  const { effect, p } = phase(anim, ms, sceneMs);
+  return effect === "none" ? 1 : EASINGS.easeOut(p);
+}
+
+function unitState(effect: TextEffect, p: number, fontSize: number, W: number, H: number, edge: SlideEdge): UnitState {
+  switch (effect) {
+    case "typewriter":
+      return { alpha: p > 0 ? 1 : 0, dx: 0, dy: 0, scale: 1 };
+    case "rise":
+      return { alpha: clamp01(p * 1.5), dx: 0, dy: (1 - p) * fontSize * 0.6, scale: 1 };
+    case "stagger":
+      return { alpha: clamp01(p), dx: 0, dy: (1 - p) * fontSize * 0.3, scale: 1 };
+    case "slide": {
+      const d = 1 - p;
+      const dx = edge === "left" ? -d * W * 0.5 : edge === "right" ? d * W * 0.5 : 0;
+      const dy = edge === "top" ? -d * H * 0.3 : edge === "bottom" ? d * H * 0.3 : 0;
+      return { alpha: clamp01(p * 2), dx, dy, scale: 1 };
+    }
+    case "pop":
+      return { alpha: clamp01(p * 3), dx: 0, dy: 0, scale: Math.max(0, p) };
+    case "fade":
+      return { alpha: clamp01(p), dx: 0, dy: 0, scale: 1 };
+    default:
+      return { alpha: 1, dx: 0, dy: 0, scale: 1 };
+  }
+}
+
+// Split each laid-out line into animation units with their left x. Words
+// follow line breaking (so CJK animates per character); right-to-left lines
+// run from the right edge and keep whole words, as letters join in Arabic.
+function splitUnits(ctx: CanvasRenderingContext2D, layout: TextLayout, unit: "word" | "char") {
+  const out: { text: string; x: number; y: number }[] = [];
+  const rtl = layout.direction === "rtl";
+  for (const line of layout.lines) {
+    const left = line.x - (layout.align === "center" ? line.width / 2 : layout.align === "right" ? line.width : 0);
+    const parts = unit === "word" || rtl
+      ? breakUnits(line.text).flatMap((u, i) => u.space && i > 0 ? [" ", u.text] : [u.text])
+      : Array.from(line.text);
+    let prefix = "";
+    for (const part of parts) {
+      if (part.trim()) {
+        const before = ctx.measureText(prefix).width;
+        out.push({ text: part, x: rtl ? left + line.width - before - ctx.measureText(part).width : left + before, y: line.y });
+      }
+      prefix += part;
+    }
+  }
+  return out;
+}
+
+// Draw a text layout at ms into a scene of sceneMs. Alpha multiplies the
+// context's current globalAlpha.
+export function drawAnimatedText(
+  ctx: CanvasRenderingContext2D,
+  layout: TextLayout,
+  font: (size: number) => string,
+  anim: TextAnimation,
+  ms: number,
+  sceneMs: number,
+) {
+  const W = ctx.canvas.width, H = ctx.canvas.height;
+  const { effect, p } = phase(anim, ms, sceneMs);
+  const ease = EASINGS[anim.easing] ?? EASINGS.linear;
+  const { unit, spread } = UNITS[effect];
+  const baseAlpha = ctx.globalAlpha;
+
+  ctx.font = font(layout.fontSize);
+  ctx.textBaseline = "alphabetic";
+  ctx.direction = layout.direction;
+
+  if (unit === "block") {
+    const s = unitState(effect, ease(p), layout.fontSize, W, H, anim.edge);
+    if (s.alpha <= 0 || s.scale <= 0) return;
+    const b = layoutBounds(layout);
+    const cx = b.x + b.width / 2, cy = b.y + b.height / 2;
+    ctx.save();
+    ctx.globalAlpha = baseAlpha * s.alpha;
+    ctx.translate(cx + s.dx, cy + s.dy);
+    ctx.scale(s.scale, s.scale);
+    ctx.translate(-cx, -cy);
+    ctx.textAlign = layout.align;
+    for (const line of layout.lines) ctx.fillText(line.text, line.x, line.y);
+    ctx.restore();
+    return;
+  }
+
+  // Units start one after another; spread is the share of the window used
+  // for staggering, the rest is each unit's own animation time
+  const units = splitUnits(ctx, layout, unit);
+  const n = units.length;
+  const slot = n > 1 ? spread / (n - 1) : 0;
+  const span = Math.max(1e-3, 1 - spread);
+  ctx.save();
+  ctx.textAlign = "left";
+  units.forEach((u, i) => {
+    const local = effect === "typewriter"
+      ? (p * n > i ? 1 : 0)
+      : ease(clamp01((p - i * slot) / span));
+    const s = unitState(effect, local, layout.fontSize, W, H, anim.edge);
+    if (s.alpha <= 0) return;
+    ctx.globalAlpha = baseAlpha * s.alpha;
+    ctx.fillText(u.text, u.x + s.dx, u.y + s.dy);
+  });
+  ctx.restore();
+}
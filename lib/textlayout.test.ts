@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import { breakUnits, ellipsize, layoutBounds, layoutText, wrapText, type MeasureFn, type TextBlockOptions } from "@/lib/textlayout";
+
+// Every character is half the font size wide
+const measure: MeasureFn = (text, size) => Array.from(text).length * size * 0.5;
+
+const block = (patch: Partial<TextBlockOptions>): TextBlockOptions => ({
+  x: 0,
+  y: 100,
+  align: "left",
+  grow: "down",
+  maxSize: 10,
+  minSize: 10,
+  lineHeight: 1.2,
+  maxLines: 3,
+  ...patch,
+});
+
+describe("wrapText", () => {
+  it("breaks between words at the line width", () => {
+    expect(wrapText("the quick brown fox", 50, 10, measure)).toEqual(["the quick", "brown fox"]);
+  });
+
+  it("keeps explicit newlines and drops blank edges", () => {
+    expect(wrapText("\nfirst\nsecond\n", 100, 10, measure)).toEqual(["first", "second"]);
+  });
+
+  it("hard-breaks a word wider than the line", () => {
+    expect(wrapText("abcdefghijklm", 25, 10, measure)).toEqual(["abcde", "fghij", "klm"]);
+  });
+});
+
+describe("layoutText", () => {
+  it("keeps the largest size when the text fits", () => {
+    const layout = layoutText("short", measure, block({ maxWidth: 100, maxSize: 20, minSize: 5 }));
+    expect(layout.fontSize).toBe(20);
+    expect(layout.lines.map(l => l.text)).toEqual(["short"]);
+  });
+
+  it("shrinks until the text fits in maxLines", () => {
+    const text = "aaaa bbbb cccc dddd";
+    const layout = layoutText(text, measure, block({ maxWidth: 100, maxSize: 20, minSize: 5, maxLines: 1 }));
+    // 19 characters fit 100px below a size of 100 / 9.5
+    expect(layout.fontSize).toBeLessThanOrEqual(100 / 9.5);
+    expect(layout.fontSize).toBeGreaterThan(100 / 9.5 * 0.95);
+    expect(layout.lines.map(l => l.text)).toEqual([text]);
+    expect(layout.truncated).toBe(false);
+  });
+
+  it("shrinks to stay inside the safe area", () => {
+    const safe = { x: 0, y: 0, width: 50, height: 120 };
+    const layout = layoutText("one two three four", measure, block({ safe, maxSize: 20, minSize: 5, maxLines: 4 }));
+    expect(layout.fontSize).toBeLessThan(20);
+    expect(layout.lines[layout.lines.length - 1].y).toBeLessThanOrEqual(safe.y + safe.height);
+    for (const line of layout.lines) expect(line.width).toBeLessThanOrEqual(safe.width);
+  });
+
+  it("ellipsizes the last line when the smallest size still overflows", () => {
+    const layout = layoutText("one two three four five six", measure, block({ maxWidth: 50, maxLines: 2 }));
+    expect(layout.truncated).toBe(true);
+    expect(layout.lines.map(l => l.text)).toEqual(["one two", "three fou…"]);
+    expect(layout.lines[1].width).toBeLessThanOrEqual(50);
+  });
+
+  it("stacks lines upwards from the last baseline", () => {
+    const layout = layoutText("the quick brown fox", measure, block({ maxWidth: 50, grow: "up" }));
+    expect(layout.lines.map(l => l.y)).toEqual([88, 100]);
+  });
+
+  it("bounds centred lines around the anchor", () => {
+    const layout = layoutText("the quick brown fox", measure, block({ x: 100, align: "center", maxWidth: 50 }));
+    expect(layoutBounds(layout)).toEqual({ x: 77.5, y: 92, width: 45, height: 22 });
+  });
+});
+
+describe("ellipsize", () => {
+  it("appends the ellipsis when it fits", () => {
+    expect(ellipsize("abc", 50, 10, measure)).toBe("abc…");
+  });
+
+  it("trims characters and trailing spaces before the ellipsis", () => {
+    expect(ellipsize("abc defgh", 25, 10, measure)).toBe("abc…");
+    expect(ellipsize("abcdef", 25, 10, measure, "...")).toBe("ab...");
+  });
+});
+
+describe("right-to-left text", () => {
+  const text = "مرحبا بالعالم الجميل";
+
+  it("wraps in logical order and keeps the direction", () => {
+    const layout = layoutText(text, measure, block({ x: 200, align: "right", maxWidth: 70, direction: "rtl" }));
+    expect(layout.direction).toBe("rtl");
+    expect(layout.lines.map(l => l.text)).toEqual(["مرحبا بالعالم", "الجميل"]);
+  });
+
+  it("measures right-aligned lines back from the anchor", () => {
+    const layout = layoutText(text, measure, block({ x: 200, align: "right", maxWidth: 70, direction: "rtl" }));
+    const bounds = layoutBounds(layout);
+    expect(bounds.x + bounds.width).toBe(200);
+    expect(bounds.width).toBe(layout.lines[0].width);
+  });
+});
+
+describe("CJK breaking", () => {
+  it("breaks Chinese and Japanese between any two characters", () => {
+    expect(breakUnits("你好世界").map(u => u.text)).toEqual(["你", "好", "世", "界"]);
+    expect(wrapText("你好世界", 10, 10, measure)).toEqual(["你好", "世界"]);
+    expect(wrapText("こんにちは世界", 15, 10, measure)).toEqual(["こんに", "ちは世", "界"]);
+  });
+
+  it("keeps closing punctuation off the start of a line", () => {
+    const lines = wrapText("你好。世界！", 10, 10, measure);
+    expect(lines).toEqual(["你", "好。", "世", "界！"]);
+    for (const line of lines) expect(line).not.toMatch(/^[。！]/);
+  });
+
+  it("keeps opening brackets off the end of a line", () => {
+    expect(breakUnits("说「你好」").map(u => u.text)).toEqual(["说", "「你", "好」"]);
+  });
+
+  it("breaks Hangul at spaces only", () => {
+    expect(wrapText("안녕하세요 세계", 30, 10, measure)).toEqual(["안녕하세요", "세계"]);
+  });
+
+  it("keeps Latin words whole between CJK characters", () => {
+    expect(breakUnits("新iPhone发布").map(u => u.text)).toEqual(["新", "iPhone", "发", "布"]);
+  });
+});
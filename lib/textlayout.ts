@@ -0,0 +1,227 @@
+// Text layout for canvas captions: word wrapping, max lines with ellipsis,
+// shrink-to-fit and safe-area aware placement. Measurement is injected so
+// layout can run against a stub instead of a real canvas.
+
+export type MeasureFn = (text: string, fontSize: number) => number;
+
+export type TextAlign = "left" | "center" | "right";
+
+export type TextDirection = "ltr" | "rtl";
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TextBlockOptions {
+  // Anchor: baseline of the first line ("down") or of the last line ("up")
+  x: number;
+  y: number;
+  align: TextAlign;
+  grow: "down" | "up";
+  maxSize: number;
+  minSize: number;
+  // Line advance as a multiple of font size
+  lineHeight: number;
+  maxLines: number;
+  // Area text must stay inside; defaults to unbounded
+  safe?: Rect;
+  // Further cap on line width, e.g. a button label
+  maxWidth?: number;
+  ellipsis?: string;
+  // Base direction for bidi text; alignment stays physical
+  direction?: TextDirection;
+}
+
+export interface TextLine {
+  text: string;
+  width: number;
+  x: number;
+  y: number;
+}
+
+export interface TextLayout {
+  fontSize: number;
+  lineHeight: number;
+  align: TextAlign;
+  direction: TextDirection;
+  lines: TextLine[];
+  truncated: boolean;
+}
+
+// Approximate ascent as a share of font size, for top-of-text estimates
+const ASCENT = 0.8;
+const SIZE_STEP = 0.95;
+
+export function safeArea(W: number, H: number, marginX = 0.06, marginY = 0.05): Rect {
+  return { x: W * marginX, y: H * marginY, width: W * (1 - 2 * marginX), height: H * (1 - 2 * marginY) };
+}
+
+// Widest line allowed for an anchor inside the safe area
+export function availableWidth(x: number, align: TextAlign, safe: Rect) {
+  const left = x - safe.x;
+  const right = safe.x + safe.width - x;
+  if (align === "left") return Math.max(0, right);
+  if (align === "right") return Math.max(0, left);
+  return Math.max(0, 2 * Math.min(left, right));
+}
+
+// Chinese and Japanese break between any two characters; Hangul keeps
+// breaking at spaces
+const CJK = /[\u2E80-\u9FFF\uF900-\uFAFF\uFE30-\uFE4F\uFF00-\uFFEF]/;
+// Kinsoku: characters that may not start a line, and ones that may not end it
+const NO_LINE_START = /^[、。，．・：；？！ー）」』】〕〉》〙〗｝］”’ぁぃぅぇぉっゃゅょゎァィゥェォッャュョヮヵヶ々〻゠〜…‥,.:;?!)\]}%]/;
+const NO_LINE_END = /[（「『【〔〈《〘〖｛［“‘([{]$/;
+
+export interface BreakUnit {
+  text: string;
+  // Separated from the previous unit by whitespace
+  space: boolean;
+}
+
+// Units a line may break between: words, plus single CJK characters with
+// kinsoku punctuation kept on the right side of the break
+export function breakUnits(paragraph: string): BreakUnit[] {
+  const units: BreakUnit[] = [];
+  for (const [i, word] of paragraph.split(/\s+/).filter(Boolean).entries()) {
+    const parts = word.match(new RegExp(`${CJK.source}|(?:(?!${CJK.source})[^])+`, "g")) ?? [];
+    parts.forEach((text, j) => {
+      const space = i > 0 && j === 0;
+      const prev = units[units.length - 1];
+      if (prev && !space && (NO_LINE_START.test(text) || NO_LINE_END.test(prev.text))) prev.text += text;
+      else units.push({ text, space });
+    });
+  }
+  return units;
+}
+
+// Greedy word wrap. Explicit newlines are kept; words wider than the line
+// are broken between characters.
+export function wrapText(text: string, maxWidth: number, fontSize: number, measure: MeasureFn) {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = "";
+    for (const { text: word, space } of breakUnits(paragraph)) {
+      const candidate = line ? `${line}${space ? " " : ""}${word}` : word;
+      if (measure(candidate, fontSize) <= maxWidth) { line = candidate; continue; }
+      if (line) lines.push(line);
+      line = "";
+      if (measure(word, fontSize) <= maxWidth) { line = word; continue; }
+      // Hard-break an overlong word
+      let chunk = "";
+      for (const ch of Array.from(word)) {
+        if (chunk && measure(chunk + ch, fontSize) > maxWidth) { lines.push(chunk); chunk = ""; }
+        chunk += ch;
+      }
+      line = chunk;
+    }
+    lines.push(line);
+  }
+  // Drop blank lines produced by leading/trailing newlines
+  while (lines.length > 1 && !lines[lines.length - 1]) lines.pop();
+  while (lines.length > 1 && !lines[0]) lines.shift();
+  return lines;
+}
+
+// Cut a line down until it fits with the ellipsis appended
+export function ellipsize(text: string, maxWidth: number, fontSize: number, measure: MeasureFn, ellipsis = "…") {
+  if (measure(text + ellipsis, fontSize) <= maxWidth) return text + ellipsis;
+  const chars = Array.from(text);
+  while (chars.length && measure(chars.join("").trimEnd() + ellipsis, fontSize) > maxWidth) chars.pop();
+  return chars.join("").trimEnd() + ellipsis;
+}
+
+// Vertical room (for lines after the first) before leaving the safe area
+function verticalRoom(opts: TextBlockOptions, fontSize: number) {
+  if (!opts.safe) return Infinity;
+  const { y, safe } = opts;
+  return opts.grow === "down"
+    ? safe.y + safe.height - y
+    : y - safe.y - fontSize * ASCENT;
+}
+
+// Keep the anchor baseline itself inside the safe area
+function clampAnchor(opts: TextBlockOptions) {
+  if (!opts.safe) return opts.y;
+  const top = opts.safe.y + opts.minSize * ASCENT;
+  const bottom = opts.safe.y + opts.safe.height - opts.minSize * (1 - ASCENT);
+  return Math.max(top, Math.min(bottom, opts.y));
+}
+
+export function layoutText(text: string, measure: MeasureFn, options: TextBlockOptions): TextLayout {
+  const opts = { ...options, y: clampAnchor(options) };
+  const maxWidth = Math.min(opts.maxWidth ?? Infinity, opts.safe ? availableWidth(opts.x, opts.align, opts.safe) : Infinity);
+  const maxLines = Math.max(1, opts.maxLines);
+  const minSize = Math.min(opts.minSize, opts.maxSize);
+
+  // Shrink from maxSize until the text fits in maxLines and the safe area
+  let size = opts.maxSize;
+  let lines = wrapText(text, maxWidth, size, measure);
+  while (size > minSize) {
+    const room = verticalRoom(opts, size);
+    if (lines.length <= maxLines && (lines.length - 1) * size * opts.lineHeight <= room) break;
+    size = Math.max(minSize, size * SIZE_STEP);
+    lines = wrapText(text, maxWidth, size, measure);
+  }
+
+  // Still too long at the smallest size: keep what fits and ellipsize
+  const advance = size * opts.lineHeight;
+  const room = verticalRoom(opts, size);
+  const fitLines = Math.max(1, Math.min(maxLines, Math.floor(room / advance) + 1));
+  let truncated = false;
+  if (lines.length > fitLines) {
+    truncated = true;
+    lines = lines.slice(0, fitLines);
+    lines[fitLines - 1] = ellipsize(lines[fitLines - 1], maxWidth, size, measure, opts.ellipsis);
+  }
+
+  const firstBaseline = opts.grow === "down" ? opts.y : opts.y - (lines.length - 1) * advance;
+  return {
+    fontSize: size,
+    lineHeight: advance,
+    align: opts.align,
+    direction: opts.direction ?? "ltr",
+    truncated,
+    lines: lines.map((t, i) => ({ text: t, width: measure(t, size), x: opts.x, y: firstBaseline + i * advance })),
+  };
+}
+
+// Bounding box of a layout, useful for backgrounds and hit testing
+export function layoutBounds(layout: TextLayout): Rect {
+  if (!layout.lines.length) return { x: 0, y: 0, width: 0, height: 0 };
+  let minX = Infinity, maxX = -Infinity;
+  for (const l of layout.lines) {
+    const left = l.x - (layout.align === "center" ? l.width / 2 : layout.align === "right" ? l.width : 0);
+    minX = Math.min(minX, left);
+    maxX = Math.max(maxX, left + l.width);
+  }
+  const top = layout.lines[0].y - layout.fontSize * ASCENT;
+  const bottom = layout.lines[layout.lines.length - 1].y + layout.fontSize * (1 - ASCENT);
+  return { x: minX, y: top, width: maxX - minX, height: bottom - top };
+}
+
+// Canvas-backed measure with a per-font cache
+export function canvasMeasure(ctx: CanvasRenderingContext2D, font: (size: number) => string): MeasureFn {
+  const cache = new Map<string, number>();
+  return (text, size) => {
+    const f = font(size);
+    const key = `${f}\u0000${text}`;
+    let w = cache.get(key);
+    if (w === undefined) {
+      ctx.font = f;
+      w = ctx.measureText(text).width;
+      cache.set(key, w);
+    }
+    return w;
+  };
+}
+
+export function drawTextLayout(ctx: CanvasRenderingContext2D, layout: TextLayout, font: (size: number) => string) {
+  ctx.font = font(layout.fontSize);
+  ctx.textAlign = layout.align;
+  ctx.textBaseline = "alphabetic";
+  ctx.direction = layout.direction;
+  for (const line of layout.lines) ctx.fillText(line.text, line.x, line.y);
+}
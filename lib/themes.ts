@@ -0,0 +1,173 @@
+// Visual themes: colour grade, effects, fonts, colours and text placement.
+// Themes are plain JSON so they can be exported and shared per client.
+
+export type TextRole = "title" | "subtitle" | "caption" | "price" | "cta";
+
+export interface TextStyle {
+  font: "heading" | "body";
+  weight: number;
+  // Font size as a fraction of canvas width
+  size: number;
+  // Anchor point as fractions of canvas width / height
+  x: number;
+  y: number;
+  align: "left" | "center" | "right";
+  color: string;
+  // Wrapping: extra lines stack below ("down") or above ("up") the anchor
+  maxLines: number;
+  grow: "down" | "up";
+  // Smallest size (fraction of width) text may shrink to before truncating
+  minSize: number;
+  lineHeight: number;
+}
+
+export interface Theme {
+  version: 1;
+  id: string;
+  name: string;
+  builtIn?: boolean;
+  fonts: { heading: string; body: string };
+  text: Record<TextRole, TextStyle>;
+  colors: {
+    background: string;
+    introOverlay: string;
+    captionShade: string;
+    priceFrom: string;
+    priceTo: string;
+    cta: string;
+  };
+  effects: {
+    // CSS filter string applied to the whole frame
+    grade: string;
+    vignette: boolean;
+    vignetteStrength: number;
+    letterbox: boolean;
+    letterboxAspect: number;
+    letterboxOpacity: number;
+  };
+}
+
+export const TEXT_ROLES: TextRole[] = ["title", "subtitle", "caption", "price", "cta"];
+
+const SYSTEM_FONT = "ui-sans-serif, system-ui";
+const GRADE = "contrast(1.12) saturate(0.95) brightness(1.05)";
+
+const cinematic: Theme = {
+  version: 1,
+  id: "cinematic",
+  name: "Cinematic",
+  builtIn: true,
+  fonts: { heading: SYSTEM_FONT, body: SYSTEM_FONT },
+  text: {
+    title: { font: "heading", weight: 700, size: 0.055, x: 0.08, y: 0.52, align: "left", color: "#ffffff", maxLines: 2, grow: "up", minSize: 0.035, lineHeight: 1.1 },
+    subtitle: { font: "body", weight: 400, size: 0.025, x: 0.08, y: 0.58, align: "left", color: "#ffffff", maxLines: 2, grow: "down", minSize: 0.018, lineHeight: 1.3 },
+    caption: { font: "body", weight: 600, size: 0.032, x: 0.06, y: 0.92, align: "left", color: "#ffffff", maxLines: 2, grow: "up", minSize: 0.022, lineHeight: 1.25 },
+    price: { font: "heading", weight: 800, size: 0.095, x: 0.5, y: 0.48, align: "center", color: "#ffffff", maxLines: 1, grow: "up", minSize: 0.05, lineHeight: 1 },
+    cta: { font: "body", weight: 600, size: 0.03, x: 0.5, y: 0.58, align: "center", color: "#ffffff", maxLines: 1, grow: "down", minSize: 0.018, lineHeight: 1 },
+  },
+  colors: {
+    background: "#000000",
+    introOverlay: "rgba(0,0,0,0.35)",
+    captionShade: "rgba(0,0,0,0.55)",
+    priceFrom: "#1f1c2c",
+    priceTo: "#928DAB",
+    cta: "#6366f1",
+  },
+  effects: {
+    grade: GRADE,
+    vignette: true,
+    vignetteStrength: 0.5,
+    letterbox: true,
+    letterboxAspect: 2.35,
+    letterboxOpacity: 0.75,
+  },
+};
+
+export const BUILT_IN_THEMES: Theme[] = [
+  cinematic,
+  {
+    ...cinematic,
+    id: "modern",
+    name: "Modern",
+    effects: { ...cinematic.effects, letterbox: false },
+  },
+  {
+    ...cinematic,
+    id: "minimal",
+    name: "Minimal",
+    effects: { ...cinematic.effects, grade: "none", vignette: false, letterbox: false },
+  },
+];
+
+export const DEFAULT_THEME_ID = "cinematic";
+
+export function findTheme(id: string, custom: Theme[]): Theme {
+  return custom.find(t => t.id === id) ?? BUILT_IN_THEMES.find(t => t.id === id) ?? cinematic;
+}
+
+export function newThemeId() {
+  return `theme-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function duplicateTheme(theme: Theme, name = `${theme.name} copy`): Theme {
+  const copy = structuredClone(theme);
+  delete copy.builtIn;
+  return { ...copy, id: newThemeId(), name };
+}
+
+// Canvas font shorthand for a text role at canvas width W
+export function themeFont(theme: Theme, role: TextRole, W: number, scale = 1) {
+  return roleFont(theme, role, W * theme.text[role].size * scale);
+}
+
+// Canvas font shorthand for a text role at an explicit pixel size
+export function roleFont(theme: Theme, role: TextRole, px: number) {
+  const s = theme.text[role];
+  return `${s.weight} ${Math.round(px)}px ${theme.fonts[s.font]}`;
+}
+
+// --- Import / export ---
+
+export function serializeTheme(theme: Theme) {
+  const { builtIn, ...rest } = theme;
+  return JSON.stringify(rest, null, 2);
+}
+
+// Parse a theme from JSON. Missing fields are filled from the cinematic
+// theme so hand-written files only need what they change.
+export function parseTheme(input: unknown): Theme {
+  const data = typeof input === "string" ? JSON.parse(input) : input;
+  if (!data || typeof data !== "object") throw new Error("Invalid theme");
+  const d = data as any;
+  if (d.version !== undefined && d.version !== 1) throw new Error(`Unsupported theme version ${d.version}`);
+
+  const text = {} as Record<TextRole, TextStyle>;
+  for (const role of TEXT_ROLES) {
+    const s = { ...cinematic.text[role], ...(d.text?.[role] ?? {}) };
+    if (!["heading", "body"].includes(s.font) || !["left", "center", "right"].includes(s.align) || !["down", "up"].includes(s.grow)) {
+      throw new Error(`Invalid text style for ${role}`);
+    }
+    for (const k of ["weight", "size", "x", "y", "maxLines", "minSize", "lineHeight"] as const) {
+      if (typeof s[k] !== "number" || !Number.isFinite(s[k])) throw new Error(`Invalid ${k} for ${role}`);
+    }
+    text[role] = s;
+  }
+
+  return {
+    version: 1,
+    id: typeof d.id === "string" && d.id && !BUILT_IN_THEMES.some(t => t.id === d.id) ? d.id : newThemeId(),
+    name: typeof d.name === "string" && d.name ? d.name : "Imported theme",
+    fonts: { ...cinematic.fonts, ...pickStrings(d.fonts) },
+    text,
+    colors: { ...cinematic.colors, ...pickStrings(d.colors) },
+    effects: { ...cinematic.effects, ...(typeof d.effects === "object" ? d.effects : {}) },
+  };
+}
+
+function pickStrings(obj: unknown) {
+  const out: Record<string, string> = {};
+  if (obj && typeof obj === "object") {
+    for (const [k, v] of Object.entries(obj)) if (typeof v === "string") out[k] = v;
+  }
+  return out;
+}
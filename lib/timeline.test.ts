@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+import {
+  createScene,
+  frameAt,
+  parseTimeline,
+  sceneAt,
+  sceneOverlap,
+  scheduleTimeline,
+  serializeTimeline,
+  timelineDuration,
+  type Timeline,
+  type TimelineScene,
+} from "@/lib/timeline";
+import type { Transition } from "@/lib/transitions";
+
+const fade = (durationMs: number): Transition => ({ kind: "crossfade", durationMs });
+
+const timeline = (scenes: TimelineScene[], defaultTransition?: Transition): Timeline =>
+  ({ version: 1, scenes, defaultTransition });
+
+// intro 1000 → image 2000 → outro 1000
+const scenes = () => [
+  createScene("intro", {}, 1000),
+  createScene("image", {}, 2000),
+  createScene("outro", {}, 1000),
+];
+
+describe("scheduleTimeline", () => {
+  it("plays scenes back to back without transitions", () => {
+    const schedule = scheduleTimeline(timeline(scenes()));
+    expect(schedule.map(s => [s.start, s.end])).toEqual([[0, 1000], [1000, 3000], [3000, 4000]]);
+    expect(schedule.every(s => s.transition === null && s.overlapMs === 0)).toBe(true);
+  });
+
+  it("overlaps scenes by the default transition", () => {
+    const schedule = scheduleTimeline(timeline(scenes(), fade(200)));
+    expect(schedule.map(s => [s.start, s.end])).toEqual([[0, 1000], [800, 2800], [2600, 3600]]);
+    expect(schedule.map(s => s.overlapMs)).toEqual([0, 200, 200]);
+    expect(schedule[0].transition).toBeNull();
+    expect(schedule[1].transition).toEqual(fade(200));
+  });
+
+  it("lets a scene's own transition override the default", () => {
+    const [intro, image, outro] = scenes();
+    const schedule = scheduleTimeline(timeline([intro, { ...image, transition: { kind: "cut", durationMs: 500 } }, outro], fade(200)));
+    expect(schedule.map(s => s.overlapMs)).toEqual([0, 0, 200]);
+    expect(schedule[1].transition).toBeNull();
+    expect(schedule[1].start).toBe(1000);
+  });
+
+  it("caps an overlap at half of either scene", () => {
+    const t = timeline(scenes(), fade(5000));
+    expect(sceneOverlap(t, 1)).toBe(500);
+    expect(sceneOverlap(t, 2)).toBe(500);
+    expect(sceneOverlap(t, 0)).toBe(0);
+    expect(sceneOverlap(t, 3)).toBe(0);
+  });
+
+  it("treats negative durations as empty", () => {
+    const [intro, image] = scenes();
+    const schedule = scheduleTimeline(timeline([intro, { ...image, durationMs: -500 }]));
+    expect(schedule[1].start).toBe(1000);
+    expect(schedule[1].end).toBe(1000);
+  });
+});
+
+describe("timelineDuration", () => {
+  it("sums the scenes minus their overlaps", () => {
+    expect(timelineDuration(timeline(scenes()))).toBe(4000);
+    expect(timelineDuration(timeline(scenes(), fade(200)))).toBe(3600);
+  });
+
+  it("is zero for an empty timeline", () => {
+    expect(timelineDuration(timeline([]))).toBe(0);
+  });
+});
+
+describe("sceneAt", () => {
+  const schedule = scheduleTimeline(timeline(scenes(), fade(200)));
+
+  it("finds the scene and its progress", () => {
+    const at = sceneAt(schedule, 500)!;
+    expect(at.entry.scene.kind).toBe("intro");
+    expect(at.local).toBe(500);
+    expect(at.prog).toBe(0.5);
+  });
+
+  it("prefers the incoming scene inside a transition", () => {
+    const at = sceneAt(schedule, 900)!;
+    expect(at.entry.scene.kind).toBe("image");
+    expect(at.local).toBe(100);
+  });
+
+  it("treats scene ends as exclusive", () => {
+    expect(sceneAt(schedule, 2800)!.entry.scene.kind).toBe("outro");
+    expect(sceneAt(schedule, 3600)).toBeNull();
+    expect(sceneAt(schedule, -1)).toBeNull();
+  });
+});
+
+describe("frameAt", () => {
+  const schedule = scheduleTimeline(timeline(scenes(), fade(200)));
+
+  it("draws a single scene outside transitions", () => {
+    const frame = frameAt(schedule, 1500)!;
+    expect(frame.current.entry.scene.kind).toBe("image");
+    expect(frame.current.prog).toBe(0.35);
+    expect(frame.incoming).toBeNull();
+    expect(frame.mix).toBe(0);
+  });
+
+  it("blends the outgoing and incoming scenes across the overlap", () => {
+    const frame = frameAt(schedule, 850)!;
+    expect(frame.current.entry.scene.kind).toBe("intro");
+    expect(frame.current.prog).toBe(0.85);
+    expect(frame.incoming!.entry.scene.kind).toBe("image");
+    expect(frame.incoming!.prog).toBe(0.025);
+    expect(frame.mix).toBe(0.25);
+  });
+
+  it("hard-cuts where the transition is a cut", () => {
+    const schedule = scheduleTimeline(timeline(scenes()));
+    const frame = frameAt(schedule, 1000)!;
+    expect(frame.current.entry.scene.kind).toBe("image");
+    expect(frame.incoming).toBeNull();
+  });
+
+  it("is null past the end", () => {
+    expect(frameAt(schedule, 3600)).toBeNull();
+  });
+});
+
+describe("parseTimeline", () => {
+  it("round-trips a serialized timeline", () => {
+    const t = timeline(scenes(), fade(200));
+    expect(parseTimeline(serializeTimeline(t))).toEqual(t);
+  });
+
+  it("fills missing params and snaps review ratings to halves", () => {
+    const t = parseTimeline({ version: 1, scenes: [{ kind: "review", durationMs: 1000, params: { quote: "Great", rating: 4.3 } }] });
+    expect(t.scenes[0].params).toEqual({ quote: "Great", rating: 4.5 });
+    expect(t.scenes[0].id).toBeTruthy();
+  });
+
+  it("rejects malformed scenes and transitions", () => {
+    expect(() => parseTimeline({ version: 1, scenes: [{ kind: "nope", durationMs: 1000 }] })).toThrow("Invalid scene kind at 0");
+    expect(() => parseTimeline({ version: 1, scenes: [{ kind: "intro", durationMs: -1 }] })).toThrow("Invalid duration at 0");
+    expect(() => parseTimeline({ version: 1, scenes: [{ kind: "image", durationMs: 1000, params: { assetId: 3 } }] })).toThrow("Invalid asset at 0");
+    expect(() => parseTimeline({ version: 1, scenes: [], defaultTransition: { kind: "slide", durationMs: 200, direction: "sideways" } })).toThrow("Invalid transition (default)");
+    expect(() => parseTimeline({ version: 2, scenes: [] })).toThrow("Invalid timeline");
+  });
+});
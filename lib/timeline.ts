@@ -0,0 +1,321 @@
+// Declarative scene timeline. Plain data only, so it can be serialized,
+// edited by the UI and scheduled without touching a canvas.
+import { TRANSITION_DIRECTIONS, TRANSITION_KINDS, transitionOverlap, type Transition, type TransitionDirection } from "@/lib/transitions";
+
+export type SceneKind = "intro" | "image" | "grid" | "compare" | "review" | "specs" | "countdown" | "price" | "outro";
+
+export type GridLayout = "2x2" | "3up";
+
+export interface SpecRow {
+  label: string;
+  value: string;
+}
+
+export interface SceneParams {
+  intro: { title?: string; subtitle?: string };
+  // assetId points at an image or video clip in the asset tray, which also
+  // holds its caption, framing and trim; caption here overrides the asset's
+  image: { assetId: string; caption?: string };
+  // Tiles from several tray assets; labels default to the features list
+  grid: { assetIds: string[]; layout: GridLayout; title?: string; labels?: string[] };
+  // Two tray assets split by a divider that sweeps across
+  compare: { beforeId: string; afterId: string; beforeLabel?: string; afterLabel?: string };
+  // rating is out of 5, in halves
+  review: { quote: string; author?: string; rating: number };
+  specs: { title?: string; rows: SpecRow[] };
+  // Counts down from remainingMs while the scene plays
+  countdown: { label?: string; remainingMs: number };
+  price: { price?: string; cta?: string };
+  outro: { color?: string };
+}
+
+export type TimelineScene = {
+  // transition is the blend *into* this scene; unset falls back to the timeline default
+  [K in SceneKind]: { id: string; kind: K; durationMs: number; params: SceneParams[K]; transition?: Transition };
+}[SceneKind];
+
+export type SceneOf<K extends SceneKind> = Extract<TimelineScene, { kind: K }>;
+
+export interface Timeline {
+  version: 1;
+  scenes: TimelineScene[];
+  defaultTransition?: Transition;
+}
+
+export interface ScheduledScene {
+  scene: TimelineScene;
+  index: number;
+  start: number;
+  end: number;
+  // Resolved transition in from the previous scene and its overlap (ms)
+  transition: Transition | null;
+  overlapMs: number;
+}
+
+export const SCENE_KINDS: SceneKind[] = ["intro", "image", "grid", "compare", "review", "specs", "countdown", "price", "outro"];
+
+export const DEFAULT_DURATIONS: Record<SceneKind, number> = {
+  intro: 1500,
+  image: 3200,
+  grid: 3000,
+  compare: 3600,
+  review: 3000,
+  specs: 3200,
+  countdown: 2400,
+  price: 1800,
+  outro: 800,
+};
+
+const DEFAULT_PARAMS: { [K in SceneKind]: () => SceneParams[K] } = {
+  intro: () => ({}),
+  image: () => ({ assetId: "" }),
+  grid: () => ({ assetIds: [], layout: "2x2" }),
+  compare: () => ({ beforeId: "", afterId: "" }),
+  review: () => ({ quote: "", rating: 5 }),
+  specs: () => ({ rows: [] }),
+  countdown: () => ({ remainingMs: 24 * 3_600_000 }),
+  price: () => ({}),
+  outro: () => ({}),
+};
+
+let idCounter = 0;
+export function newSceneId() {
+  idCounter = (idCounter + 1) % 1_000_000;
+  return `s${Date.now().toString(36)}${idCounter.toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function createScene<K extends SceneKind>(kind: K, params?: Partial<SceneParams[K]>, durationMs?: number): SceneOf<K> {
+  return {
+    id: newSceneId(),
+    kind,
+    durationMs: durationMs ?? DEFAULT_DURATIONS[kind],
+    params: { ...DEFAULT_PARAMS[kind](), ...params },
+  } as unknown as SceneOf<K>;
+}
+
+// intro → image × N → price → outro, matching the original fixed layout
+export function createDefaultTimeline(assetIds: string[] = []): Timeline {
+  const scenes: TimelineScene[] = [createScene("intro")];
+  for (const assetId of assetIds) scenes.push(createScene("image", { assetId }));
+  scenes.push(createScene("price"), createScene("outro"));
+  return { version: 1, scenes };
+}
+
+export function resolveTransition(timeline: Timeline, index: number): Transition | null {
+  if (index <= 0) return null;
+  return timeline.scenes[index]?.transition ?? timeline.defaultTransition ?? null;
+}
+
+// Overlap (ms) between scene index - 1 and scene index
+export function sceneOverlap(timeline: Timeline, index: number) {
+  if (index <= 0 || index >= timeline.scenes.length) return 0;
+  return transitionOverlap(
+    resolveTransition(timeline, index),
+    Math.max(0, timeline.scenes[index - 1].durationMs),
+    Math.max(0, timeline.scenes[index].durationMs),
+  );
+}
+
+export function scheduleTimeline(timeline: Timeline): ScheduledScene[] {
+  const out: ScheduledScene[] = [];
+  let cursor = 0;
+  timeline.scenes.forEach((scene, index) => {
+    const d = Math.max(0, scene.durationMs);
+    const overlapMs = sceneOverlap(timeline, index);
+    const start = cursor - overlapMs;
+    out.push({ scene, index, start, end: start + d, transition: overlapMs > 0 ? resolveTransition(timeline, index) : null, overlapMs });
+    cursor = start + d;
+  });
+  return out;
+}
+
+export function timelineDuration(timeline: Timeline) {
+  const schedule = scheduleTimeline(timeline);
+  return schedule.length ? schedule[schedule.length - 1].end : 0;
+}
+
+// Scene active at tMs together with its local progress (0..1). During a
+// transition this is the incoming scene.
+export function sceneAt(schedule: ScheduledScene[], tMs: number) {
+  let entry: ScheduledScene | null = null;
+  for (const s of schedule) if (tMs >= s.start && tMs < s.end) entry = s;
+  if (!entry) return null;
+  const local = tMs - entry.start;
+  return { entry, local, prog: local / (entry.end - entry.start) };
+}
+
+// Everything needed to draw one frame: the current scene and, inside a
+// transition, the incoming scene plus how far the blend has progressed
+export function frameAt(schedule: ScheduledScene[], tMs: number) {
+  const active = schedule.filter(s => tMs >= s.start && tMs < s.end);
+  if (!active.length) return null;
+  const at = (entry: ScheduledScene) => ({ entry, prog: (tMs - entry.start) / (entry.end - entry.start) });
+  const current = at(active[0]);
+  const next = active[1];
+  if (!next || !next.transition || next.overlapMs <= 0) return { current, incoming: null, mix: 0 };
+  return { current, incoming: at(next), mix: (tMs - next.start) / next.overlapMs };
+}
+
+// --- Editing (all operations return a new timeline) ---
+
+export function insertScene(timeline: Timeline, index: number, scene: TimelineScene): Timeline {
+  const scenes = timeline.scenes.slice();
+  scenes.splice(clampIndex(index, scenes.length + 1), 0, scene);
+  return { ...timeline, scenes };
+}
+
+export function removeScene(timeline: Timeline, id: string): Timeline {
+  return { ...timeline, scenes: timeline.scenes.filter(s => s.id !== id) };
+}
+
+export function moveScene(timeline: Timeline, id: string, toIndex: number): Timeline {
+  const from = timeline.scenes.findIndex(s => s.id === id);
+  if (from < 0) return timeline;
+  const scenes = timeline.scenes.slice();
+  const [scene] = scenes.splice(from, 1);
+  scenes.splice(clampIndex(toIndex, scenes.length + 1), 0, scene);
+  return { ...timeline, scenes };
+}
+
+export function duplicateScene(timeline: Timeline, id: string): Timeline {
+  const from = timeline.scenes.findIndex(s => s.id === id);
+  if (from < 0) return timeline;
+  const src = timeline.scenes[from];
+  const copy = { ...src, id: newSceneId(), params: { ...src.params }, transition: src.transition && { ...src.transition } } as TimelineScene;
+  return insertScene(timeline, from + 1, copy);
+}
+
+// transition: null clears a per-scene override
+export function updateScene(
+  timeline: Timeline,
+  id: string,
+  patch: { durationMs?: number; params?: Partial<SceneParams[SceneKind]>; transition?: Transition | null },
+): Timeline {
+  return {
+    ...timeline,
+    scenes: timeline.scenes.map(s => {
+      if (s.id !== id) return s;
+      const next = {
+        ...s,
+        durationMs: patch.durationMs ?? s.durationMs,
+        params: { ...s.params, ...patch.params },
+      } as TimelineScene;
+      if (patch.transition === null) delete next.transition;
+      else if (patch.transition) next.transition = patch.transition;
+      return next;
+    }),
+  };
+}
+
+// Keep image scenes in step with the asset tray: drop scenes whose asset is
+// gone and append scenes for assets that have none yet.
+export function syncImageScenes(timeline: Timeline, assetIds: string[]): Timeline {
+  const ids = new Set(assetIds);
+  let scenes = timeline.scenes.filter(s => s.kind !== "image" || !s.params.assetId || ids.has(s.params.assetId));
+  const used = new Set(scenes.flatMap(s => s.kind === "image" ? [s.params.assetId] : []));
+  const missing = assetIds.filter(id => !used.has(id)).map(assetId => createScene("image", { assetId }));
+  if (!missing.length) return scenes.length === timeline.scenes.length ? timeline : { ...timeline, scenes };
+
+  let at = -1;
+  scenes.forEach((s, i) => { if (s.kind === "image") at = i; });
+  if (at < 0) at = scenes.findIndex(s => s.kind === "intro");
+  scenes = scenes.slice();
+  scenes.splice(at + 1, 0, ...missing);
+  return { ...timeline, scenes };
+}
+
+// Re-deal the image scene slots in asset order, after the tray is reordered.
+// Scenes of the same asset keep their relative order.
+export function orderImageScenes(timeline: Timeline, assetIds: string[]): Timeline {
+  const rank = new Map(assetIds.map((id, i) => [id, i]));
+  const images = timeline.scenes.filter((s): s is SceneOf<"image"> => s.kind === "image");
+  const pos = (s: SceneOf<"image">) => rank.get(s.params.assetId) ?? assetIds.length;
+  const sorted = images.slice().sort((a, b) => pos(a) - pos(b));
+  if (sorted.every((s, i) => s === images[i])) return timeline;
+  let k = 0;
+  return { ...timeline, scenes: timeline.scenes.map(s => s.kind === "image" ? sorted[k++] : s) };
+}
+
+// --- Serialization ---
+
+export function serializeTimeline(timeline: Timeline) {
+  return JSON.stringify(timeline);
+}
+
+export function parseTimeline(input: unknown): Timeline {
+  const data = obj(typeof input === "string" ? JSON.parse(input) : input);
+  if (!data || data.version !== 1 || !Array.isArray(data.scenes)) throw new Error("Invalid timeline");
+  const scenes = data.scenes.map((s: unknown, i: number) => parseScene(s, i));
+  const timeline: Timeline = { version: 1, scenes };
+  if (data.defaultTransition != null) timeline.defaultTransition = parseTransition(data.defaultTransition, "default");
+  return timeline;
+}
+
+function parseScene(v: unknown, i: number): TimelineScene {
+  const s = obj(v);
+  if (!s || !SCENE_KINDS.includes(s.kind as SceneKind)) throw new Error(`Invalid scene kind at ${i}`);
+  const kind = s.kind as SceneKind;
+  if (!isNum(s.durationMs) || s.durationMs < 0) throw new Error(`Invalid duration at ${i}`);
+  const params: Record<string, unknown> = { ...DEFAULT_PARAMS[kind](), ...obj(s.params) };
+  const invalid = (what: string) => new Error(`Invalid ${what} at ${i}`);
+  switch (kind) {
+    case "image":
+      if (!isStr(params.assetId)) throw invalid("asset");
+      break;
+    case "grid":
+      if (!Array.isArray(params.assetIds) || !params.assetIds.every(isStr) || !GRID_LAYOUTS.includes(params.layout as GridLayout)) throw invalid("grid");
+      break;
+    case "compare":
+      if (!isStr(params.beforeId) || !isStr(params.afterId)) throw invalid("comparison");
+      break;
+    case "review":
+      if (!isStr(params.quote) || !isNum(params.rating)) throw invalid("review");
+      params.rating = Math.max(0, Math.min(5, Math.round(params.rating * 2) / 2));
+      break;
+    case "specs":
+      if (!Array.isArray(params.rows) || !params.rows.every((r) => { const row = obj(r); return !!row && isStr(row.label) && isStr(row.value); })) throw invalid("spec table");
+      break;
+    case "countdown":
+      if (!isNum(params.remainingMs) || params.remainingMs < 0) throw invalid("countdown");
+      break;
+  }
+  const scene = { id: isStr(s.id) && s.id ? s.id : newSceneId(), kind, durationMs: s.durationMs, params } as TimelineScene;
+  if (s.transition != null) scene.transition = parseTransition(s.transition, `scene ${i}`);
+  return scene;
+}
+
+function parseTransition(v: unknown, where: string): Transition {
+  const t = obj(v);
+  if (!t || !TRANSITION_KINDS.some(k => k.kind === t.kind) || !isNum(t.durationMs) || t.durationMs < 0) {
+    throw new Error(`Invalid transition (${where})`);
+  }
+  const transition: Transition = { kind: t.kind as Transition["kind"], durationMs: t.durationMs };
+  if (t.direction != null) {
+    if (!TRANSITION_DIRECTIONS.includes(t.direction as TransitionDirection)) throw new Error(`Invalid transition (${where})`);
+    transition.direction = t.direction as TransitionDirection;
+  }
+  if (t.color != null) {
+    if (!isStr(t.color)) throw new Error(`Invalid transition (${where})`);
+    transition.color = t.color;
+  }
+  return transition;
+}
+
+const GRID_LAYOUTS: GridLayout[] = ["2x2", "3up"];
+
+// Narrowing helpers for untrusted JSON, as in lib/project.ts
+function obj(v: unknown): Record<string, unknown> | null {
+  return v && typeof v === "object" && !Array.isArray(v) ? (v as Record<string, unknown>) : null;
+}
+
+function isStr(v: unknown): v is string {
+  return typeof v === "string";
+}
+
+function isNum(v: unknown): v is number {
+  return typeof v === "number" && Number.isFinite(v);
+}
+
+function clampIndex(i: number, len: number) {
+  return Math.max(0, Math.min(len - 1, i));
+}
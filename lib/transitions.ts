@@ -0,0 +1,131 @@
+// Transitions between adjacent scenes. Both scenes are rendered into their
+// own layer and blended here while they overlap.
+
+export type TransitionKind = "cut" | "crossfade" | "slide" | "wipe" | "zoom" | "dip";
+export type TransitionDirection = "left" | "right" | "up" | "down";
+
+export interface Transition {
+  kind: TransitionKind;
+  durationMs: number;
+  direction?: TransitionDirection;
+  // Used by "dip"
+  color?: string;
+}
+
+export const TRANSITION_KINDS: { kind: TransitionKind; label: string }[] = [
+  { kind: "cut", label: "Cut" },
+  { kind: "crossfade", label: "Crossfade" },
+  { kind: "slide", label: "Slide" },
+  { kind: "wipe", label: "Wipe" },
+  { kind: "zoom", label: "Zoom blur" },
+  { kind: "dip", label: "Dip to color" },
+];
+
+export const TRANSITION_DIRECTIONS: TransitionDirection[] = ["left", "right", "up", "down"];
+
+export const DEFAULT_TRANSITION: Transition = { kind: "crossfade", durationMs: 500, direction: "left", color: "#000000" };
+
+export type Layer = HTMLCanvasElement | OffscreenCanvas;
+type Ctx = CanvasRenderingContext2D;
+
+export function createLayer(width: number, height: number): Layer {
+  if (typeof OffscreenCanvas !== "undefined") return new OffscreenCanvas(width, height);
+  const c = document.createElement("canvas");
+  c.width = width;
+  c.height = height;
+  return c;
+}
+
+export function layerContext(layer: Layer) {
+  return layer.getContext("2d") as unknown as Ctx;
+}
+
+// Overlap between two scenes; never more than half of either so at most two
+// scenes are ever on screen at once
+export function transitionOverlap(t: Transition | null | undefined, prevMs: number, nextMs: number) {
+  if (!t || t.kind === "cut") return 0;
+  return Math.max(0, Math.min(t.durationMs, prevMs / 2, nextMs / 2));
+}
+
+export function easeInOutCubic(x: number) {
+  return x < 0.5 ? 4 * x * x * x : 1 - (-2 * x + 2) ** 3 / 2;
+}
+
+// Blend `from` into `to`; mix runs 0 → 1 across the overlap
+export function drawTransition(ctx: Ctx, from: Layer, to: Layer, t: Transition, mix: number) {
+  const W = ctx.canvas.width, H = ctx.canvas.height;
+  const m = easeInOutCubic(Math.max(0, Math.min(1, mix)));
+
+  switch (t.kind) {
+    case "cut":
+      ctx.drawImage(m < 0.5 ? from : to, 0, 0, W, H);
+      break;
+
+    case "crossfade":
+      ctx.drawImage(from, 0, 0, W, H);
+      ctx.globalAlpha = m;
+      ctx.drawImage(to, 0, 0, W, H);
+      ctx.globalAlpha = 1;
+      break;
+
+    case "slide": {
+      const [dx, dy] = directionVector(t.direction);
+      const ox = -dx * W * m, oy = -dy * H * m;
+      ctx.drawImage(from, ox, oy, W, H);
+      ctx.drawImage(to, ox + dx * W, oy + dy * H, W, H);
+      break;
+    }
+
+    case "wipe": {
+      const [dx, dy] = directionVector(t.direction);
+      ctx.drawImage(from, 0, 0, W, H);
+      ctx.save();
+      ctx.beginPath();
+      // The incoming edge travels in the wipe direction
+      if (dx) ctx.rect(dx > 0 ? W * (1 - m) : 0, 0, W * m, H);
+      else ctx.rect(0, dy > 0 ? H * (1 - m) : 0, W, H * m);
+      ctx.clip();
+      ctx.drawImage(to, 0, 0, W, H);
+      ctx.restore();
+      break;
+    }
+
+    case "zoom": {
+      // Outgoing pushes in while the incoming settles from slightly wide,
+      // with motion blur peaking mid-transition
+      const blur = Math.round(Math.sin(Math.PI * m) * Math.min(W, H) * 0.012);
+      // Keep any grade filter already set on the context
+      const base = ctx.filter && ctx.filter !== "none" ? ctx.filter : "";
+      ctx.save();
+      ctx.filter = blur > 0 ? `${base} blur(${blur}px)`.trim() : base || "none";
+      drawScaled(ctx, from, 1 + 0.35 * m, W, H);
+      ctx.globalAlpha = m;
+      drawScaled(ctx, to, 0.85 + 0.15 * m, W, H);
+      ctx.restore();
+      break;
+    }
+
+    case "dip": {
+      const first = m < 0.5;
+      ctx.drawImage(first ? from : to, 0, 0, W, H);
+      ctx.fillStyle = t.color ?? "#000000";
+      ctx.globalAlpha = first ? m * 2 : (1 - m) * 2;
+      ctx.fillRect(0, 0, W, H);
+      ctx.globalAlpha = 1;
+      break;
+    }
+  }
+}
+
+// Unit vector pointing at the side the incoming scene enters from
+function directionVector(dir: TransitionDirection = "left"): [number, number] {
+  if (dir === "right") return [-1, 0];
+  if (dir === "up") return [0, 1];
+  if (dir === "down") return [0, -1];
+  return [1, 0];
+}
+
+function drawScaled(ctx: Ctx, src: Layer, scale: number, W: number, H: number) {
+  const w = W * scale, h = H * scale;
+  ctx.drawImage(src, (W - w) / 2, (H - h) / 2, w, h);
+}
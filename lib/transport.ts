@@ -0,0 +1,60 @@
+// Preview playback clock: advancing with speed and loop region, frame
+// stepping and scene markers. Times are in ms on the timeline.
+import type { ScheduledScene, SceneKind } from "@/lib/timeline";
+
+export interface LoopRegion {
+  startMs: number;
+  endMs: number;
+}
+
+export const PLAYBACK_RATES = [0.25, 0.5, 1, 1.5, 2];
+
+// Shortest loop worth playing
+const MIN_LOOP_MS = 100;
+
+export function clampTime(ms: number, durationMs: number) {
+  return Math.max(0, Math.min(Math.max(0, durationMs - 1), ms));
+}
+
+export function normalizeLoop(a: number, b: number, durationMs: number): LoopRegion | null {
+  const startMs = clampTime(Math.min(a, b), durationMs);
+  const endMs = clampTime(Math.max(a, b), durationMs);
+  return endMs - startMs >= MIN_LOOP_MS ? { startMs, endMs } : null;
+}
+
+// Time after dtMs of playback; wraps inside the loop region, or the whole
+// timeline without one. Playback that starts outside the region runs into it.
+export function advance(tMs: number, dtMs: number, durationMs: number, loop: LoopRegion | null) {
+  if (durationMs <= 0) return 0;
+  const t = tMs + dtMs;
+  if (loop && tMs <= loop.endMs) {
+    if (t < loop.endMs) return t;
+    return loop.startMs + ((t - loop.startMs) % (loop.endMs - loop.startMs));
+  }
+  return t % durationMs;
+}
+
+// Step whole frames from the current one, landing on the frame grid
+export function stepFrames(tMs: number, frames: number, fps: number, durationMs: number) {
+  const frame = Math.round((tMs * fps) / 1000) + frames;
+  return clampTime((frame * 1000) / fps, durationMs);
+}
+
+export interface SceneMarker {
+  index: number;
+  kind: SceneKind;
+  // Where the scene begins, including its transition in
+  ms: number;
+}
+
+export function sceneMarkers(schedule: ScheduledScene[]): SceneMarker[] {
+  return schedule.map(s => ({ index: s.index, kind: s.scene.kind, ms: Math.max(0, s.start) }));
+}
+
+// m:ss.ff with frames at fps
+export function formatTime(ms: number, fps: number) {
+  const totalFrames = Math.floor((ms * fps) / 1000);
+  const s = Math.floor(totalFrames / fps);
+  const f = totalFrames % fps;
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, "0")}.${String(f).padStart(2, "0")}`;
+}
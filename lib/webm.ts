@@ -0,0 +1,290 @@
+// Minimal in-memory WebM (Matroska) muxer for WebCodecs output.
+// Chunks are buffered and laid out into clusters on finalize(), so tracks
+// can be fed in any order.
+import type { Cue } from "@/lib/subtitles";
+
+export interface WebmVideoTrack {
+  codec: "V_VP8" | "V_VP9";
+  width: number;
+  height: number;
+  frameRate: number;
+}
+
+export interface WebmAudioTrack {
+  codec: "A_OPUS";
+  sampleRate: number;
+  channels: number;
+  codecPrivate?: Uint8Array;
+}
+
+export interface WebmMuxerOptions {
+  video: WebmVideoTrack;
+  audio?: WebmAudioTrack | null;
+  // Muxed as a D_WEBVTT/SUBTITLES track
+  subtitles?: Cue[] | null;
+  // BCP 47 tag of the subtitles
+  language?: string;
+}
+
+interface Block {
+  track: number;
+  timeMs: number;
+  key: boolean;
+  data: Uint8Array;
+  // Only text blocks carry a duration (written as a BlockGroup)
+  durationMs?: number;
+}
+
+type EbmlValue = Uint8Array | EbmlElement[];
+interface EbmlElement {
+  id: number;
+  value: EbmlValue;
+}
+
+const VIDEO_TRACK = 1;
+const AUDIO_TRACK = 2;
+const TEXT_TRACK = 3;
+const MAX_CLUSTER_MS = 5000;
+
+export function createWebmMuxer(opts: WebmMuxerOptions) {
+  const blocks: Block[] = [];
+  // The encoder's own OpusHead, which carries its real pre-skip
+  let codecPrivate = opts.audio?.codecPrivate ?? null;
+
+  function push(track: number, chunk: EncodedVideoChunk | EncodedAudioChunk) {
+    const data = new Uint8Array(chunk.byteLength);
+    chunk.copyTo(data);
+    blocks.push({ track, timeMs: chunk.timestamp / 1000, key: chunk.type === "key", data });
+  }
+
+  return {
+    addVideoChunk(chunk: EncodedVideoChunk) {
+      push(VIDEO_TRACK, chunk);
+    },
+    addAudioChunk(chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata) {
+      if (!opts.audio) return;
+      const desc = meta?.decoderConfig?.description;
+      if (desc) codecPrivate = toBytes(desc);
+      push(AUDIO_TRACK, chunk);
+    },
+    finalize(durationMs: number): Blob {
+      return new Blob([buildFile(opts, blocks, durationMs, codecPrivate)], { type: opts.audio ? "video/webm;codecs=" + videoCodecName(opts.video.codec) + ",opus" : "video/webm" });
+    },
+  };
+}
+
+export type WebmMuxer = ReturnType<typeof createWebmMuxer>;
+
+function videoCodecName(codec: WebmVideoTrack["codec"]) {
+  return codec === "V_VP9" ? "vp9" : "vp8";
+}
+
+// OpusHead (RFC 7845 §5.1), used when the encoder does not provide one
+export function opusHead(channels: number, sampleRate: number, preSkip = 312) {
+  const out = new Uint8Array(19);
+  out.set([0x4f, 0x70, 0x75, 0x73, 0x48, 0x65, 0x61, 0x64]);
+  const view = new DataView(out.buffer);
+  view.setUint8(8, 1);
+  view.setUint8(9, channels);
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, sampleRate, true);
+  view.setInt16(16, 0, true);
+  view.setUint8(18, 0);
+  return out;
+}
+
+function buildFile(opts: WebmMuxerOptions, input: Block[], durationMs: number, codecPrivate: Uint8Array | null) {
+  const text = (opts.subtitles ?? []).map((c): Block => ({
+    track: TEXT_TRACK,
+    timeMs: c.startMs,
+    key: true,
+    data: str(c.text),
+    durationMs: c.endMs - c.startMs,
+  }));
+  // Interleave by time; on ties put video first so clusters open on keyframes
+  const blocks = [...input, ...text].sort((a, b) => a.timeMs - b.timeMs || a.track - b.track);
+
+  const header = el(0x1a45dfa3, [
+    el(0x4286, uint(1)),
+    el(0x42f7, uint(1)),
+    el(0x42f2, uint(4)),
+    el(0x42f3, uint(8)),
+    el(0x4282, str("webm")),
+    el(0x4287, uint(4)),
+    el(0x4285, uint(2)),
+  ]);
+
+  const info = el(0x1549a966, [
+    el(0x2ad7b1, uint(1_000_000)),
+    el(0x4d80, str("CineForge")),
+    el(0x5741, str("CineForge")),
+    el(0x4489, float64(durationMs)),
+  ]);
+
+  const tracks: EbmlElement[] = [
+    el(0xae, [
+      el(0xd7, uint(VIDEO_TRACK)),
+      el(0x73c5, uint(VIDEO_TRACK)),
+      el(0x83, uint(1)),
+      el(0x86, str(opts.video.codec)),
+      el(0x23e383, uint(Math.round(1e9 / opts.video.frameRate))),
+      el(0xe0, [
+        el(0xb0, uint(opts.video.width)),
+        el(0xba, uint(opts.video.height)),
+      ]),
+    ]),
+  ];
+  if (opts.audio) {
+    tracks.push(el(0xae, [
+      el(0xd7, uint(AUDIO_TRACK)),
+      el(0x73c5, uint(AUDIO_TRACK)),
+      el(0x83, uint(2)),
+      el(0x86, str(opts.audio.codec)),
+      el(0x63a2, codecPrivate ?? opusHead(opts.audio.channels, opts.audio.sampleRate)),
+      el(0x56aa, uint(6_500_000)),
+      el(0x56bb, uint(80_000_000)),
+      el(0xe1, [
+        el(0xb5, float64(opts.audio.sampleRate)),
+        el(0x9f, uint(opts.audio.channels)),
+      ]),
+    ]));
+  }
+  if (opts.subtitles?.length) {
+    tracks.push(el(0xae, [
+      el(0xd7, uint(TEXT_TRACK)),
+      el(0x73c5, uint(TEXT_TRACK)),
+      el(0x83, uint(0x11)),
+      el(0x86, str("D_WEBVTT/SUBTITLES")),
+      el(0x9c, uint(0)),
+      // Language takes ISO 639-2 only, so the tag goes in LanguageBCP47,
+      // which takes precedence where it is supported
+      el(0x22b59d, str("und")),
+      el(0x22b59e, str(opts.language ?? "und")),
+    ]));
+  }
+  const tracksEl = el(0x1654ae6b, tracks);
+
+  // Clusters
+  const clusters: { timeMs: number; bytes: Uint8Array }[] = [];
+  let current: { timeMs: number; children: EbmlElement[] } | null = null;
+  const flush = () => {
+    if (current) clusters.push({ timeMs: current.timeMs, bytes: encode(el(0x1f43b675, current.children)) });
+    current = null;
+  };
+  for (const b of blocks) {
+    const t = Math.round(b.timeMs);
+    const startNew = !current
+      || (b.track === VIDEO_TRACK && b.key && t > current.timeMs)
+      || t - current.timeMs >= MAX_CLUSTER_MS;
+    if (startNew) {
+      flush();
+      current = { timeMs: t, children: [el(0xe7, uint(t))] };
+    }
+    const rel = t - current!.timeMs;
+    current!.children.push(b.durationMs === undefined
+      ? el(0xa3, simpleBlock(b.track, rel, b.key, b.data))
+      : el(0xa0, [el(0xa1, block(b.track, rel, b.data)), el(0x9b, uint(Math.round(b.durationMs)))]));
+  }
+  flush();
+
+  // SeekHead (fixed-size positions) → Info → Tracks → Clusters → Cues
+  const seekHeadFor = (infoPos: number, tracksPos: number, cuesPos: number) => el(0x114d9b74, [
+    el(0x4dbb, [el(0x53ab, id(0x1549a966)), el(0x53ac, uint(infoPos, 8))]),
+    el(0x4dbb, [el(0x53ab, id(0x1654ae6b)), el(0x53ac, uint(tracksPos, 8))]),
+    el(0x4dbb, [el(0x53ab, id(0x1c53bb6b)), el(0x53ac, uint(cuesPos, 8))]),
+  ]);
+  const seekHeadSize = encode(seekHeadFor(0, 0, 0)).length;
+  const infoBytes = encode(info);
+  const tracksBytes = encode(tracksEl);
+  const infoPos = seekHeadSize;
+  const tracksPos = infoPos + infoBytes.length;
+  let cursor = tracksPos + tracksBytes.length;
+  const cuePoints: EbmlElement[] = [];
+  for (const c of clusters) {
+    cuePoints.push(el(0xbb, [
+      el(0xb3, uint(c.timeMs)),
+      el(0xb7, [el(0xf7, uint(VIDEO_TRACK)), el(0xf1, uint(cursor))]),
+    ]));
+    cursor += c.bytes.length;
+  }
+  const cuesBytes = encode(el(0x1c53bb6b, cuePoints));
+  const seekHead = encode(seekHeadFor(infoPos, tracksPos, cursor));
+
+  const segmentBody = concat([seekHead, infoBytes, tracksBytes, ...clusters.map(c => c.bytes), cuesBytes]);
+  const segmentHead = concat([id(0x18538067), vint(segmentBody.length)]);
+  return concat([encode(header), segmentHead, segmentBody]);
+}
+
+function simpleBlock(track: number, relMs: number, key: boolean, data: Uint8Array) {
+  const out = new Uint8Array(4 + data.length);
+  out[0] = 0x80 | track;
+  out[1] = (relMs >> 8) & 0xff;
+  out[2] = relMs & 0xff;
+  out[3] = key ? 0x80 : 0;
+  out.set(data, 4);
+  return out;
+}
+
+// Block inside a BlockGroup; same header as SimpleBlock minus the key flag
+function block(track: number, relMs: number, data: Uint8Array) {
+  return simpleBlock(track, relMs, false, data);
+}
+
+// --- EBML primitives ---
+
+function el(id: number, value: EbmlValue): EbmlElement {
+  return { id, value };
+}
+
+function encode(e: EbmlElement): Uint8Array {
+  const body = e.value instanceof Uint8Array ? e.value : concat(e.value.map(encode));
+  return concat([id(e.id), vint(body.length), body]);
+}
+
+function id(n: number) {
+  const bytes: number[] = [];
+  while (n > 0) { bytes.unshift(n & 0xff); n = Math.floor(n / 256); }
+  return new Uint8Array(bytes);
+}
+
+function vint(n: number) {
+  let len = 1;
+  while (len < 8 && n >= 2 ** (7 * len) - 1) len++;
+  const out = new Uint8Array(len);
+  let v = n;
+  for (let i = len - 1; i >= 0; i--) { out[i] = v & 0xff; v = Math.floor(v / 256); }
+  out[0] |= 1 << (8 - len);
+  return out;
+}
+
+function uint(n: number, width?: number) {
+  let len = width ?? 1;
+  while (!width && len < 8 && n >= 2 ** (8 * len)) len++;
+  const out = new Uint8Array(len);
+  let v = n;
+  for (let i = len - 1; i >= 0; i--) { out[i] = v & 0xff; v = Math.floor(v / 256); }
+  return out;
+}
+
+function float64(n: number) {
+  const out = new Uint8Array(8);
+  new DataView(out.buffer).setFloat64(0, n);
+  return out;
+}
+
+function str(s: string) {
+  return new TextEncoder().encode(s);
+}
+
+function toBytes(src: AllowSharedBufferSource) {
+  if (src instanceof Uint8Array) return src.slice();
+  if (ArrayBuffer.isView(src)) return new Uint8Array(src.buffer.slice(src.byteOffset, src.byteOffset + src.byteLength));
+  return new Uint8Array(src.slice(0));
+}
+
+export function concat(parts: Uint8Array[]) {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let off = 0;
+  for (const p of parts) { out.set(p, off); off += p.length; }
+  return out;
+}
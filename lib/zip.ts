@@ -0,0 +1,115 @@
+// Minimal ZIP writer. Entries are stored uncompressed: video and images are
+// already compressed, so deflate would only cost time.
+
+export interface ZipEntry {
+  name: string;
+  data: Blob | string;
+  lastModified?: Date;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(bytes: Uint8Array) {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date and time fields
+function dosTime(d: Date) {
+  return {
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | (d.getSeconds() >> 1),
+    date: (Math.max(0, d.getFullYear() - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+  };
+}
+
+async function toBytes(data: ZipEntry["data"]) {
+  if (typeof data === "string") return new TextEncoder().encode(data);
+  return new Uint8Array(await data.arrayBuffer());
+}
+
+export async function createZip(entries: ZipEntry[]): Promise<Blob> {
+  const parts: BlobPart[] = [];
+  const central: BlobPart[] = [];
+  let centralSize = 0;
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = new TextEncoder().encode(entry.name);
+    const bytes = await toBytes(entry.data);
+    const crc = crc32(bytes);
+    const { time, date } = dosTime(entry.lastModified ?? new Date());
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    // UTF-8 file names
+    local.setUint16(6, 0x0800, true);
+    local.setUint16(8, 0, true);
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, bytes.length, true);
+    local.setUint32(22, bytes.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+    parts.push(local.buffer, name, bytes);
+
+    const dir = new DataView(new ArrayBuffer(46));
+    dir.setUint32(0, 0x02014b50, true);
+    dir.setUint16(4, 20, true);
+    dir.setUint16(6, 20, true);
+    dir.setUint16(8, 0x0800, true);
+    dir.setUint16(10, 0, true);
+    dir.setUint16(12, time, true);
+    dir.setUint16(14, date, true);
+    dir.setUint32(16, crc, true);
+    dir.setUint32(20, bytes.length, true);
+    dir.setUint32(24, bytes.length, true);
+    dir.setUint16(28, name.length, true);
+    dir.setUint32(42, offset, true);
+    central.push(dir.buffer, name);
+    centralSize += 46 + name.length;
+
+    offset += 30 + name.length + bytes.length;
+  }
+
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end.buffer], { type: "application/zip" });
+}
+
+// Entries of a stored (uncompressed) archive, as written by createZip
+export async function readZip(blob: Blob): Promise<Map<string, Blob>> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const entries = new Map<string, Blob>();
+  let p = 0;
+  while (p + 30 <= bytes.length && view.getUint32(p, true) === 0x04034b50) {
+    const flags = view.getUint16(p + 6, true);
+    const method = view.getUint16(p + 8, true);
+    const size = view.getUint32(p + 18, true);
+    const nameLen = view.getUint16(p + 26, true);
+    const extraLen = view.getUint16(p + 28, true);
+    const name = new TextDecoder().decode(bytes.subarray(p + 30, p + 30 + nameLen));
+    // Sizes are only known up front without a trailing data descriptor
+    if (method !== 0 || flags & 0x0008) throw new Error(`Unsupported zip entry ${name}`);
+    const start = p + 30 + nameLen + extraLen;
+    entries.set(name, blob.slice(start, start + size));
+    p = start + size;
+  }
+  return entries;
+}
@@ -4,6 +4,8 @@ const nextConfig = {
   experimental: {
     typedRoutes: true,
     optimizePackageImports: ["react", "react-dom"],
+    // Native module used by the headless render route
+    serverComponentsExternalPackages: ["skia-canvas"],
   },
 };
 